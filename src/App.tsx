@@ -5,6 +5,11 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import History from "./pages/History";
+import ProgressDashboard from "./pages/ProgressDashboard";
+import Results from "./pages/Results";
+import DevPanel from "./components/DevPanel";
+import { isDevPanelEnabled } from "./services/llmCallLog";
 
 const queryClient = new QueryClient();
 
@@ -13,9 +18,14 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      {isDevPanelEnabled() && <DevPanel />}
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/history/:sessionId" element={<History />} />
+          <Route path="/progress" element={<ProgressDashboard />} />
+          <Route path="/results/:sessionId" element={<Results />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,44 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+interface AverageBarItem {
+  label: string;
+  average: number;
+  count: number;
+}
+
+interface AverageBarChartProps {
+  items: AverageBarItem[];
+}
+
+const chartConfig = {
+  average: {
+    label: "Média",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const ROW_HEIGHT = 36;
+
+// Barras horizontais com a média (0-100) de cada grupo (categoria, critério, competência...)
+const AverageBarChart = ({ items }: AverageBarChartProps) => (
+  <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(items.length * ROW_HEIGHT, 120) }}>
+    <BarChart data={items} layout="vertical" margin={{ top: 0, right: 16, left: 8, bottom: 0 }}>
+      <CartesianGrid horizontal={false} />
+      <XAxis type="number" domain={[0, 100]} tickLine={false} axisLine={false} />
+      <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} tick={{ fontSize: 12 }} />
+      <ChartTooltip
+        cursor={false}
+        content={
+          <ChartTooltipContent
+            formatter={(value, _, item) => `Média: ${value}/100 (${item.payload.count} resposta(s))`}
+          />
+        }
+      />
+      <Bar dataKey="average" fill="var(--color-average)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+);
+
+export default AverageBarChart;
+export type { AverageBarItem };
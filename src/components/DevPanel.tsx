@@ -0,0 +1,132 @@
+import { useSyncExternalStore } from "react";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Copy, Terminal, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { clearLLMCalls, getLLMCalls, subscribeLLMCalls, type LLMCallRecord } from "@/services/llmCallLog";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const CallBadges = ({ call }: { call: LLMCallRecord }) => (
+  <span className="flex flex-wrap gap-1">
+    {call.status === 'pending' && <Badge variant="outline">em curso</Badge>}
+    {call.status === 'error' && <Badge variant="destructive">erro</Badge>}
+    {call.parse && (
+      <Badge variant={call.parse.valid ? 'secondary' : 'destructive'}>
+        {call.parse.valid ? 'JSON válido' : 'JSON inválido'}
+      </Badge>
+    )}
+    {call.fallbackUsed && <Badge variant="outline">fallback</Badge>}
+    {call.streamed && <Badge variant="outline">stream</Badge>}
+  </span>
+);
+
+// Painel de desenvolvimento: lista os pedidos ao LLM desta sessão para inspecionar e copiar
+const DevPanel = () => {
+  const { toast } = useToast();
+  const calls = useSyncExternalStore(subscribeLLMCalls, getLLMCalls);
+
+  const copyCall = async (call: LLMCallRecord) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(call, null, 2));
+      toast({ title: "Pedido copiado", description: `Chamada #${call.id} (${call.task}) copiada em JSON.` });
+    } catch {
+      toast({ title: "Não foi possível copiar", description: "O navegador bloqueou o acesso à área de transferência.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="fixed bottom-4 right-4 z-50 rounded-full shadow-md" title="Painel de desenvolvimento">
+          <Terminal className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-2xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Chamadas ao LLM</SheetTitle>
+          <SheetDescription>
+            {calls.length} pedido(s) nesta sessão. O prompt aparece como foi enviado, já sem dados pessoais.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={clearLLMCalls} disabled={calls.length === 0}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Limpar
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 pr-3">
+          {calls.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Ainda não houve pedidos ao LLM.</p>
+          ) : (
+            <Accordion type="multiple">
+              {[...calls].reverse().map(call => (
+                <AccordionItem key={call.id} value={String(call.id)}>
+                  <AccordionTrigger className="text-sm hover:no-underline">
+                    <span className="flex flex-1 flex-wrap items-center gap-2 text-left">
+                      <span className="font-mono text-xs text-muted-foreground">#{call.id} {formatTime(call.startedAt)}</span>
+                      <span className="font-medium">{call.task}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {call.provider}
+                        {call.attempt > 1 && ` · tentativa ${call.attempt}`}
+                        {call.latencyMs !== undefined && ` · ${call.latencyMs} ms`}
+                      </span>
+                      <CallBadges call={call} />
+                    </span>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-3">
+                    <div className="flex justify-end">
+                      <Button variant="outline" size="sm" onClick={() => copyCall(call)}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copiar JSON
+                      </Button>
+                    </div>
+
+                    <div className="space-y-2">
+                      <h4 className="text-xs font-semibold uppercase text-muted-foreground">Prompt</h4>
+                      {call.messages.map((message, index) => (
+                        <div key={index} className="space-y-1">
+                          <Badge variant="outline">{message.role}</Badge>
+                          <pre className="whitespace-pre-wrap break-words rounded bg-muted p-2 text-xs">{message.content}</pre>
+                        </div>
+                      ))}
+                    </div>
+
+                    {call.response !== undefined && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold uppercase text-muted-foreground">Resposta bruta</h4>
+                        <pre className="whitespace-pre-wrap break-words rounded bg-muted p-2 text-xs">{call.response}</pre>
+                      </div>
+                    )}
+
+                    {call.parse && !call.parse.valid && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold uppercase text-muted-foreground">Validação</h4>
+                        <pre className="whitespace-pre-wrap break-words rounded bg-muted p-2 text-xs text-destructive">{call.parse.error}</pre>
+                      </div>
+                    )}
+
+                    {call.error && (
+                      <div className="space-y-1">
+                        <h4 className="text-xs font-semibold uppercase text-muted-foreground">Erro</h4>
+                        <p className="text-xs text-destructive">{call.error}</p>
+                      </div>
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DevPanel;
@@ -0,0 +1,66 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { DIFFICULTY_LABELS, QUESTION_DIFFICULTIES, type QuestionDifficulty } from "@/services/questions";
+
+interface TrajectoryPoint {
+  difficulty: QuestionDifficulty;
+  score?: number;
+}
+
+interface DifficultyTrajectoryProps {
+  points: TrajectoryPoint[];
+}
+
+const chartConfig = {
+  level: {
+    label: "Dificuldade",
+    color: "hsl(var(--accent))",
+  },
+  score: {
+    label: "Pontuação",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+// Dificuldade de cada pergunta (em degraus) sobreposta à pontuação obtida
+const DifficultyTrajectory = ({ points }: DifficultyTrajectoryProps) => {
+  const data = points.map((point, index) => ({
+    question: `P${index + 1}`,
+    level: QUESTION_DIFFICULTIES.indexOf(point.difficulty) + 1,
+    score: point.score,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[200px] w-full">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="question" tickLine={false} axisLine={false} />
+        <YAxis
+          yAxisId="level"
+          domain={[1, QUESTION_DIFFICULTIES.length]}
+          ticks={QUESTION_DIFFICULTIES.map((_, index) => index + 1)}
+          tickFormatter={(value: number) => DIFFICULTY_LABELS[QUESTION_DIFFICULTIES[value - 1]] ?? ''}
+          tickLine={false}
+          axisLine={false}
+          width={56}
+        />
+        <YAxis yAxisId="score" orientation="right" domain={[0, 100]} hide />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              formatter={(value, name) =>
+                name === 'level'
+                  ? `Dificuldade: ${DIFFICULTY_LABELS[QUESTION_DIFFICULTIES[Number(value) - 1]]}`
+                  : `Pontuação: ${value}/100`
+              }
+            />
+          }
+        />
+        <Line yAxisId="level" type="stepAfter" dataKey="level" stroke="var(--color-level)" strokeWidth={2} dot />
+        <Line yAxisId="score" type="monotone" dataKey="score" stroke="var(--color-score)" strokeDasharray="4 4" dot />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default DifficultyTrajectory;
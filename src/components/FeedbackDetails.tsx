@@ -0,0 +1,96 @@
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ShieldAlert } from "lucide-react";
+import RubricChart from "./RubricChart";
+import type { Answer } from "@/services/types";
+import { getHintPenalty } from "@/services/hints";
+
+interface FeedbackDetailsProps {
+  answer: Answer;
+}
+
+// Feedback de uma resposta: pontuação, alertas, rubrica, pontos fortes, melhorias e comentário geral
+const FeedbackDetails = ({ answer }: FeedbackDetailsProps) => {
+  const { feedback } = answer;
+  if (!feedback) return null;
+
+  const hintPenalty = getHintPenalty(answer.hintsUsed);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span>Pontuação:</span>
+        <Badge variant="secondary">
+          {feedback.score}/100
+        </Badge>
+        {feedback.source !== 'ai' && (
+          <Badge variant="outline" className="text-xs">
+            {feedback.source === 'repaired' ? 'Resposta da IA corrigida' : 'Avaliação offline (sem IA)'}
+          </Badge>
+        )}
+        {hintPenalty > 0 && (
+          <Badge variant="outline" className="text-xs">
+            −{hintPenalty} pts por dicas ({answer.hintsUsed!.length})
+          </Badge>
+        )}
+      </div>
+
+      {feedback.integrity?.flagged && (
+        <Alert variant="destructive">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertTitle>Pontuação a verificar</AlertTitle>
+          <AlertDescription>
+            <ul className="text-sm space-y-1">
+              {feedback.integrity.warnings.map((warning, index) => (
+                <li key={index}>{warning}</li>
+              ))}
+            </ul>
+            <p className="text-xs mt-1">
+              Avaliação heurística: {feedback.integrity.heuristicScore}/100
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Separator />
+
+      {feedback.criteria.length > 0 && (
+        <div>
+          <h4 className="font-medium mb-2">Avaliação por Critério:</h4>
+          <RubricChart criteria={feedback.criteria} />
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-success mb-2">Pontos Fortes:</h4>
+        <ul className="text-sm space-y-1">
+          {feedback.strengths.map((strength, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <span className="text-success">•</span>
+              {strength}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div>
+        <h4 className="font-medium text-accent mb-2">Sugestões de Melhoria:</h4>
+        <ul className="text-sm space-y-1">
+          {feedback.improvements.map((improvement, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <span className="text-accent">•</span>
+              {improvement}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-muted/50 p-3 rounded-lg">
+        <p className="text-sm">{feedback.overall}</p>
+      </div>
+    </div>
+  );
+};
+
+export default FeedbackDetails;
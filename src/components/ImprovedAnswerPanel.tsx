@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Wand2 } from "lucide-react";
+import { groqService, type ImprovedAnswer } from "@/services/groqService";
+import { isAbortError } from "@/services/llmErrors";
+import { diffWords } from "@/services/textDiff";
+import type { InterviewQuestion } from "@/services/questions";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger('improved-answer');
+
+interface ImprovedAnswerPanelProps {
+  question: InterviewQuestion;
+  answer: string;
+  improvements: string[];
+  jobRole: string;
+}
+
+const ImprovedAnswerPanel = ({ question, answer, improvements, jobRole }: ImprovedAnswerPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [improved, setImproved] = useState<ImprovedAnswer | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  // A reescrita só é pedida quando o painel é aberto pela primeira vez
+  useEffect(() => {
+    if (!isOpen || improved) return;
+
+    const controller = new AbortController();
+
+    const loadImprovedAnswer = async () => {
+      setHasFailed(false);
+      try {
+        const rewritten = await groqService.improveAnswer(
+          question,
+          answer,
+          { improvements },
+          jobRole,
+          { signal: controller.signal }
+        );
+        setImproved(rewritten);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        log.error('Erro ao melhorar resposta:', error);
+        setHasFailed(true);
+      }
+    };
+
+    loadImprovedAnswer();
+
+    return () => controller.abort();
+  }, [isOpen, improved, question, answer, improvements, jobRole]);
+
+  // Sem reescrita nem falha, o pedido ainda está em curso
+  const isLoading = !improved && !hasFailed;
+
+  const segments = improved ? diffWords(answer, improved.improvedAnswer) : [];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <Wand2 className="h-4 w-4 text-primary" />
+            Melhorar a minha resposta
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+            A reescrever a sua resposta com as sugestões...
+          </div>
+        ) : improved?.source === 'fallback' ? (
+          <p className="text-sm text-muted-foreground">
+            Não foi possível reescrever a resposta sem a IA. Experimente aplicar as sugestões de melhoria acima ao seu texto.
+          </p>
+        ) : improved ? (
+          <>
+            <div className="grid sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Original</h4>
+                <p className="text-sm leading-relaxed bg-muted/50 p-2 rounded-lg whitespace-pre-wrap">
+                  {segments.filter(segment => segment.operation !== 'added').map((segment, index) =>
+                    segment.operation === 'removed' ? (
+                      <del key={index} className="bg-destructive/15 text-destructive rounded px-0.5">{segment.text}</del>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </div>
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Melhorada</h4>
+                <p className="text-sm leading-relaxed bg-muted/50 p-2 rounded-lg whitespace-pre-wrap">
+                  {segments.filter(segment => segment.operation !== 'removed').map((segment, index) =>
+                    segment.operation === 'added' ? (
+                      <ins key={index} className="bg-success/20 text-foreground no-underline rounded px-0.5">{segment.text}</ins>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </p>
+              </div>
+            </div>
+            {improved.changes.length > 0 && (
+              <div>
+                <h4 className="text-xs font-medium text-muted-foreground mb-1">O que mudou:</h4>
+                <ul className="text-sm space-y-1">
+                  {improved.changes.map((change, index) => (
+                    <li key={index} className="flex items-start gap-2">
+                      <span className="text-success">•</span>
+                      {change}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {improved.source === 'repaired' && (
+              <Badge variant="outline" className="text-xs">Resposta da IA corrigida</Badge>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Não foi possível melhorar a resposta.</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ImprovedAnswerPanel;
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CheckCircle, Home, ClipboardList, RotateCcw, Download, FileText, FileJson, Printer } from "lucide-react";
+import DifficultyTrajectory from "./DifficultyTrajectory";
+import FeedbackDetails from "./FeedbackDetails";
+import ScoreDistributionChart from "./ScoreDistributionChart";
+import { useToast } from "@/hooks/use-toast";
+import { groqService, type InterviewReport } from "@/services/groqService";
+import { buildTranscript } from "@/services/conversation";
+import { isAbortError } from "@/services/llmErrors";
+import { CATEGORY_LABELS } from "@/services/questions";
+import { VERDICT_LABELS } from "@/services/report";
+import { computeSkillCoverage } from "@/services/skills";
+import { getNameVariants } from "@/services/redaction";
+import { getAverageScore, getCategoryAverages, getScoreDistribution, getWeakQuestions, WEAK_SCORE_THRESHOLD } from "@/services/sessionStats";
+import type { ExportFormat } from "@/services/sessionExport";
+import type { InterviewResult, Question } from "@/services/types";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger('results');
+
+interface InterviewResultsProps {
+  result: InterviewResult;
+  // Relatório já gerado numa visita anterior; sem ele, é pedido à IA
+  savedReport?: InterviewReport;
+  onReportGenerated?: (report: InterviewReport) => void;
+  // A entrevista acabou agora (e não foi aberta a partir do histórico)
+  justCompleted?: boolean;
+  onBackToSetup: () => void;
+  // Começa uma nova entrevista só com as perguntas indicadas
+  onRetryQuestions?: (questions: Question[]) => void;
+  // Exporta a entrevista (só disponível para sessões já guardadas)
+  onExport?: (format: ExportFormat) => void;
+}
+
+const InterviewResults = ({ result, savedReport, onReportGenerated, justCompleted, onBackToSetup, onRetryQuestions, onExport }: InterviewResultsProps) => {
+  const { toast } = useToast();
+  const { config, questions, answers, requiredSkills } = result;
+  const [report, setReport] = useState<InterviewReport | null>(null);
+  const [isLoadingReport, setIsLoadingReport] = useState(true);
+
+  // Gerar o relatório final assim que a tela abre, se ainda não houver um guardado
+  useEffect(() => {
+    if (savedReport) {
+      setReport(savedReport);
+      setIsLoadingReport(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    // Sessões abertas do histórico não passaram pela entrevista, onde os nomes são definidos
+    groqService.setSessionNames(getNameVariants(config.candidateName));
+
+    const loadReport = async () => {
+      setIsLoadingReport(true);
+      try {
+        const generatedReport = await groqService.generateInterviewReport(
+          buildTranscript(questions, answers),
+          config.area,
+          config.experience,
+          {
+            jobDescription: config.jobDescription?.trim(),
+            requiredSkills,
+            signal: controller.signal
+          }
+        );
+        setReport(generatedReport);
+        onReportGenerated?.(generatedReport);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        log.error('Erro ao gerar relatório:', error);
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoadingReport(false);
+        }
+      }
+    };
+
+    loadReport();
+
+    return () => controller.abort();
+  }, [config, questions, answers, requiredSkills, savedReport, onReportGenerated]);
+
+  const finishInterview = () => {
+    // Voltar para a tela inicial
+    onBackToSetup();
+    if (justCompleted) {
+      toast({
+        title: "Entrevista finalizada!",
+        description: "Obrigado por participar. Boa sorte!",
+      });
+    }
+  };
+
+  const averageScore = getAverageScore(answers);
+  // Média por categoria real das perguntas respondidas
+  const categoryScores = getCategoryAverages([result]);
+  const scoreDistribution = getScoreDistribution(answers);
+  const weakQuestions = getWeakQuestions(result);
+  const answeredQuestions = questions
+    .map(question => ({ question, answer: answers.find(answer => answer.questionId === question.id) }))
+    .filter(item => item.answer);
+  // Perguntas pela ordem em que foram feitas, com a pontuação de cada uma
+  const trajectory = questions
+    .filter(question => answers.some(answer => answer.questionId === question.id))
+    .map(question => ({
+      difficulty: question.difficulty,
+      score: answers.find(answer => answer.questionId === question.id)?.feedback?.score
+    }));
+  const flaggedEvaluations = answers.filter(answer => answer.feedback?.integrity?.flagged).length;
+  const hintsUsed = answers.reduce((total, answer) => total + (answer.hintsUsed?.length ?? 0), 0);
+  const skillCoverage = computeSkillCoverage(
+    requiredSkills,
+    answers.map(answer => answer.feedback?.demonstratedSkills ?? [])
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-center flex items-center justify-center gap-2">
+              <CheckCircle className="h-6 w-6 text-green-500" />
+              Entrevista Finalizada!
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="text-center">
+              <div className="text-3xl font-bold text-primary mb-2">{averageScore}/100</div>
+              <p className="text-muted-foreground">Pontuação média</p>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="font-semibold">Resumo da entrevista:</h3>
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="font-medium">Candidato:</span> {config.candidateName}
+                </div>
+                <div>
+                  <span className="font-medium">Área:</span> {config.area}
+                </div>
+                <div>
+                  <span className="font-medium">Experiência:</span> {config.experience}
+                </div>
+                <div>
+                  <span className="font-medium">Perguntas respondidas:</span> {answers.length}
+                </div>
+                {flaggedEvaluations > 0 && (
+                  <div className="text-destructive">
+                    <span className="font-medium">Avaliações sinalizadas:</span> {flaggedEvaluations}
+                  </div>
+                )}
+                {hintsUsed > 0 && (
+                  <div>
+                    <span className="font-medium">Dicas usadas:</span> {hintsUsed}
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* Relatório da IA */}
+            <div className="space-y-4">
+              <h3 className="font-semibold flex items-center gap-2">
+                <ClipboardList className="h-4 w-4 text-primary" />
+                Relatório da entrevista
+              </h3>
+
+              {isLoadingReport ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+                  A IA está analisando a entrevista completa...
+                </div>
+              ) : report ? (
+                <div className="space-y-4">
+                  <div className="bg-muted/50 p-3 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Badge>{VERDICT_LABELS[report.verdict]}</Badge>
+                      {report.source === 'fallback' && (
+                        <Badge variant="outline" className="text-xs">Relatório local</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm">{report.verdictRationale}</p>
+                  </div>
+
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div>
+                      <h4 className="font-medium text-success mb-2">Principais Pontos Fortes:</h4>
+                      <ul className="text-sm space-y-1">
+                        {report.strengths.map((strength, index) => (
+                          <li key={index} className="flex items-start gap-2">
+                            <span className="text-success">•</span>
+                            {strength}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div>
+                      <h4 className="font-medium text-accent mb-2">Áreas de Desenvolvimento:</h4>
+                      <ul className="text-sm space-y-1">
+                        {report.developmentAreas.map((area, index) => (
+                          <li key={index} className="flex items-start gap-2">
+                            <span className="text-accent">•</span>
+                            {area}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-2">Competências:</h4>
+                    <div className="space-y-2 text-sm">
+                      {report.competencies.map(({ competency, score, assessment }) => (
+                        <div key={competency} className="flex items-start justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{competency}</p>
+                            <p className="text-xs text-muted-foreground">{assessment}</p>
+                          </div>
+                          <Badge variant="secondary">{score}/100</Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-2">Plano de Prática:</h4>
+                    <ol className="text-sm space-y-1 list-decimal list-inside">
+                      {report.practicePlan.map((step, index) => (
+                        <li key={index}>{step}</li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Não foi possível gerar o relatório.</p>
+              )}
+            </div>
+
+            {config.adaptive && trajectory.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Trajetória de dificuldade:</h3>
+                <DifficultyTrajectory points={trajectory} />
+              </div>
+            )}
+
+            {categoryScores.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Por tipo de pergunta:</h3>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  {categoryScores.map(({ category, count, average }) => (
+                    <div key={category} className="flex items-center justify-between bg-muted/50 rounded-lg px-3 py-2">
+                      <span>{CATEGORY_LABELS[category]} ({count})</span>
+                      <Badge variant="secondary">{average}/100</Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {answers.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Distribuição das pontuações:</h3>
+                <ScoreDistributionChart buckets={scoreDistribution} />
+              </div>
+            )}
+
+            {requiredSkills.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold">Competências da vaga:</h3>
+                <div>
+                  <p className="text-sm font-medium text-success mb-2">
+                    Demonstradas ({skillCoverage.covered.length}/{requiredSkills.length})
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {skillCoverage.covered.length > 0 ? (
+                      skillCoverage.covered.map(skill => (
+                        <Badge key={skill} variant="secondary">{skill}</Badge>
+                      ))
+                    ) : (
+                      <span className="text-sm text-muted-foreground">Nenhuma competência demonstrada.</span>
+                    )}
+                  </div>
+                </div>
+                {skillCoverage.missing.length > 0 && (
+                  <div>
+                    <p className="text-sm font-medium text-accent mb-2">Nunca demonstradas</p>
+                    <div className="flex flex-wrap gap-2">
+                      {skillCoverage.missing.map(skill => (
+                        <Badge key={skill} variant="outline">{skill}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-center gap-2">
+              {onRetryQuestions && weakQuestions.length > 0 && (
+                <Button variant="outline" onClick={() => onRetryQuestions(weakQuestions)} className="flex items-center gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Repetir perguntas fracas ({weakQuestions.length})
+                </Button>
+              )}
+              {onExport && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="flex items-center gap-2">
+                      <Download className="h-4 w-4" />
+                      Exportar
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent>
+                    <DropdownMenuItem onSelect={() => onExport('pdf')}>
+                      <Printer className="h-4 w-4 mr-2" />
+                      PDF (imprimir)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onExport('markdown')}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Markdown
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onExport('json')}>
+                      <FileJson className="h-4 w-4 mr-2" />
+                      JSON (reimportável)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              <Button onClick={finishInterview} className="flex items-center gap-2">
+                <Home className="h-4 w-4" />
+                Voltar ao Início
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {answeredQuestions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Respostas e feedback</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Accordion type="multiple">
+                {answeredQuestions.map(({ question, answer }, index) => (
+                  <AccordionItem key={question.id} value={String(question.id)}>
+                    <AccordionTrigger className="text-left hover:no-underline">
+                      <span className="flex flex-1 items-start justify-between gap-3 pr-2">
+                        <span className="text-sm">
+                          <span className="text-muted-foreground mr-2">P{index + 1}</span>
+                          {question.text}
+                        </span>
+                        {answer.feedback && (
+                          <Badge variant={answer.feedback.score < WEAK_SCORE_THRESHOLD ? 'destructive' : 'secondary'} className="shrink-0">
+                            {answer.feedback.score}/100
+                          </Badge>
+                        )}
+                      </span>
+                    </AccordionTrigger>
+                    <AccordionContent className="space-y-4">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="secondary">{CATEGORY_LABELS[question.category]}</Badge>
+                        <Badge variant="outline">{question.competency}</Badge>
+                      </div>
+                      <div className="space-y-1">
+                        <h4 className="font-medium">Resposta:</h4>
+                        <p className="text-sm whitespace-pre-wrap bg-muted/50 p-3 rounded-lg">{answer.text}</p>
+                      </div>
+                      <FeedbackDetails answer={answer} />
+                      {onRetryQuestions && (
+                        <Button variant="outline" size="sm" onClick={() => onRetryQuestions([question])}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Repetir esta pergunta
+                        </Button>
+                      )}
+                    </AccordionContent>
+                  </AccordionItem>
+                ))}
+              </Accordion>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InterviewResults;
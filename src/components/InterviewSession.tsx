@@ -4,7 +4,6 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Separator } from "@/components/ui/separator";
 import { 
   Volume2, 
   Mic, 
@@ -14,129 +13,184 @@ import {
   Clock,
   MessageCircle,
   CheckCircle,
-  Home
+  Lightbulb
 } from "lucide-react";
-import { InterviewConfig } from "./InterviewSetup";
+import FeedbackDetails from "./FeedbackDetails";
+import ModelAnswerPanel from "./ModelAnswerPanel";
+import ImprovedAnswerPanel from "./ImprovedAnswerPanel";
 import { useToast } from "@/hooks/use-toast";
-import { groqService, type InterviewFeedback } from "@/services/groqService";
+import { groqService, type InterviewFeedback, type InterviewHint } from "@/services/groqService";
+import { buildTranscript } from "@/services/conversation";
+import { CATEGORY_LABELS, DIFFICULTY_LABELS, type InterviewQuestion } from "@/services/questions";
+import { isAbortError, LLMError } from "@/services/llmErrors";
+import { getBankQuestions } from "@/services/questionBank";
+import { getAskedQuestions, recordAskedQuestion } from "@/services/questionHistory";
+import { chooseNextDifficulty, pickClosestDifficulty } from "@/services/adaptive";
+import { applyHintPenalty, HINT_LABELS, HINT_PENALTIES, nextHintLevel } from "@/services/hints";
+import { createLogger } from "@/services/logger";
+import { getNameVariants } from "@/services/redaction";
+import { createSessionId, saveSession, type StoredSession } from "@/services/sessionStore";
+import { getQuestionTarget } from "@/services/sessionStats";
+import type { Answer, InterviewConfig, Question } from "@/services/types";
+
+const log = createLogger('session');
+
+// Aviso após avaliar, consoante a origem do feedback (a IA pode ter falhado e caído na avaliação local)
+const EVALUATION_TOASTS: Record<InterviewFeedback['source'], { title: string; description: string; variant?: 'destructive' }> = {
+  ai: { title: "Resposta avaliada!", description: "Feedback gerado com sucesso pela IA." },
+  repaired: { title: "Resposta avaliada!", description: "Feedback gerado pela IA (resposta corrigida automaticamente)." },
+  fallback: {
+    title: "Avaliação offline",
+    description: "A IA não devolveu uma avaliação válida. Usando avaliação local.",
+    variant: "destructive"
+  },
+};
 
 interface InterviewSessionProps {
   config: InterviewConfig;
   onBackToSetup: () => void;
+  // Recebe a sessão concluída (já enviada para o armazenamento)
+  onComplete: (session: StoredSession) => void;
+  // Sessão interrompida a retomar (perguntas e respostas já guardadas)
+  resumeSession?: StoredSession;
 }
 
-interface Question {
-  id: number;
-  text: string;
-  category: string;
-}
+const withIds = (questions: InterviewQuestion[]): Question[] =>
+  questions.map((question, index) => ({ ...question, id: index + 1 }));
 
-interface Answer {
-  questionId: number;
-  text: string;
-  feedback?: InterviewFeedback;
-}
-
-const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
+const InterviewSession = ({ config, onBackToSetup, onComplete, resumeSession }: InterviewSessionProps) => {
   const { toast } = useToast();
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(resumeSession?.currentQuestionIndex ?? 0);
   const [currentAnswer, setCurrentAnswer] = useState('');
-  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [answers, setAnswers] = useState<Answer[]>(resumeSession?.answers ?? []);
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [showFeedback, setShowFeedback] = useState(false);
-  const [questions, setQuestions] = useState<Question[]>([]);
-  const [isLoadingQuestions, setIsLoadingQuestions] = useState(true);
-  const [interviewCompleted, setInterviewCompleted] = useState(false);
+  // Ao retomar, se a pergunta atual já foi respondida, volta a mostrar o feedback
+  const [showFeedback, setShowFeedback] = useState(() => {
+    const resumedQuestion = resumeSession?.questions[resumeSession.currentQuestionIndex];
+    return Boolean(resumedQuestion && resumeSession.answers.some(answer => answer.questionId === resumedQuestion.id));
+  });
+  const [questions, setQuestions] = useState<Question[]>(resumeSession?.questions ?? []);
+  const [isLoadingQuestions, setIsLoadingQuestions] = useState(!resumeSession);
+  const [streamingOverall, setStreamingOverall] = useState('');
+  const [streamingFollowUp, setStreamingFollowUp] = useState('');
+  const [requiredSkills, setRequiredSkills] = useState<string[]>(resumeSession?.requiredSkills ?? []);
+  const [hints, setHints] = useState<InterviewHint[]>(resumeSession?.currentHints ?? []);
+  const [isLoadingHint, setIsLoadingHint] = useState(false);
   const recognitionRef = useRef<SpeechRecognition | null>(null);
+  // Pedido à IA em curso (avaliação ou follow-up); um pedido novo cancela o anterior
+  const pendingRequestRef = useRef<AbortController | null>(null);
+  const sessionIdRef = useRef(resumeSession?.id ?? createSessionId());
+  const startedAtRef = useRef(resumeSession?.startedAt ?? Date.now());
 
-  const totalQuestions = config.mode === 'quick' ? 5 : 10;
+  const totalQuestions = getQuestionTarget(config);
   const currentQuestion = questions[currentQuestionIndex];
+  const nextHint = nextHintLevel(hints.map(hint => hint.level));
   const progress = questions.length > 0 ? ((currentQuestionIndex + 1) / Math.min(totalQuestions, questions.length)) * 100 : 0;
 
   // Carregar perguntas dinamicamente quando o componente monta
   useEffect(() => {
+    const controller = new AbortController();
+    groqService.setSessionNames(getNameVariants(config.candidateName));
+    // Sessão retomada: as perguntas vêm do armazenamento
+    if (resumeSession) return;
+
     const loadInitialQuestions = async () => {
       setIsLoadingQuestions(true);
       
       try {
-        console.log('🎯 Carregando perguntas para:', config);
-        const generatedQuestions = await groqService.generateQuestions(
-          config.area,
-          config.experience,
-          totalQuestions
-        );
+        log.debug('Carregando perguntas para:', config);
+        const jobDescription = config.jobDescription?.trim();
+        const [{ questions: generatedQuestions, source }, skills] = await Promise.all([
+          groqService.generateQuestions(
+            config.area,
+            config.experience,
+            totalQuestions,
+            { jobDescription, signal: controller.signal }
+          ),
+          jobDescription
+            ? groqService.extractRequiredSkills(jobDescription, { signal: controller.signal })
+            : Promise.resolve([])
+        ]);
+
+        setRequiredSkills(skills);
 
         if (generatedQuestions.length > 0) {
-          const questionsWithIds = generatedQuestions.map((text, index) => ({
-            id: index + 1,
-            text,
-            category: index === 0 ? "Apresentação" : "Técnica"
-          }));
+          const questionsWithIds = withIds(generatedQuestions);
           
           setQuestions(questionsWithIds);
-          console.log('✅ Perguntas carregadas:', questionsWithIds);
+          log.debug('Perguntas carregadas:', questionsWithIds, source);
         } else {
-          // Fallback para perguntas padrão
-          const fallbackQuestions: Question[] = [
-            {
-              id: 1,
-              text: `Olá ${config.candidateName}! Fale-me um pouco sobre você e a sua experiência profissional em ${config.area}.`,
-              category: "Apresentação Pessoal"
-            },
-            {
-              id: 2,
-              text: "Quais são as suas principais competências técnicas e como as aplicou em projetos anteriores?",
-              category: "Competências Técnicas"
-            },
-            {
-              id: 3,
-              text: "Descreva uma situação desafiante que enfrentou no trabalho e como a resolveu.",
-              category: "Resolução de Problemas"
-            },
-            {
-              id: 4,
-              text: "Porque está interessado nesta posição e na nossa empresa?",
-              category: "Motivação"
-            },
-            {
-              id: 5,
-              text: "Onde se vê profissionalmente daqui a 5 anos?",
-              category: "Objetivos Profissionais"
-            }
-          ];
-          
-          setQuestions(fallbackQuestions.slice(0, totalQuestions));
+          // Fallback para o banco local de perguntas
+          setQuestions(withIds(getBankQuestions(config.area, config.experience, totalQuestions, getAskedQuestions(config.area, config.experience))));
         }
       } catch (error) {
-        console.error('❌ Erro ao carregar perguntas:', error);
+        if (isAbortError(error)) return;
+        log.error('Erro ao carregar perguntas:', error);
+        setQuestions(withIds(getBankQuestions(config.area, config.experience, totalQuestions, getAskedQuestions(config.area, config.experience))));
         toast({
           title: "Erro ao carregar perguntas",
           description: "Usando perguntas padrão.",
           variant: "destructive"
         });
       } finally {
-        setIsLoadingQuestions(false);
+        if (!controller.signal.aborted) {
+          setIsLoadingQuestions(false);
+        }
       }
     };
 
     loadInitialQuestions();
-  }, [config, totalQuestions, toast]);
 
-  // Limpar recognition quando o componente for desmontado
+    return () => controller.abort();
+  }, [config, totalQuestions, toast, resumeSession]);
+
+  // Guarda a sessão a cada mudança, para sobreviver a um refresh ou a um "Voltar à Configuração"
+  useEffect(() => {
+    if (isLoadingQuestions || questions.length === 0) return;
+
+    saveSession({
+      id: sessionIdRef.current,
+      status: 'in_progress',
+      config,
+      questions,
+      answers,
+      requiredSkills,
+      currentQuestionIndex,
+      currentHints: hints,
+      startedAt: startedAtRef.current,
+      updatedAt: Date.now()
+    }).catch(error => log.warn('Não foi possível guardar a sessão.', error));
+  }, [config, questions, answers, requiredSkills, currentQuestionIndex, hints, isLoadingQuestions]);
+
+  // Limpar recognition e cancelar pedidos pendentes quando o componente for desmontado
   useEffect(() => {
     return () => {
       if (recognitionRef.current) {
         recognitionRef.current.stop();
       }
+      pendingRequestRef.current?.abort();
     };
   }, []);
 
+  // Cancela o pedido anterior (se ainda estiver a correr) e devolve o signal do novo
+  const startRequest = () => {
+    pendingRequestRef.current?.abort();
+    const controller = new AbortController();
+    pendingRequestRef.current = controller;
+    return controller.signal;
+  };
+
+  const handleBackToSetup = () => {
+    pendingRequestRef.current?.abort();
+    onBackToSetup();
+  };
+
   // Função para testar o microfone
   const testMicrophone = async () => {
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      console.log('✅ Microfone funcionando');
+      log.debug('Microfone funcionando');
       
       toast({
         title: "Microfone OK",
@@ -147,7 +201,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       stream.getTracks().forEach(track => track.stop());
       return true;
     } catch (error) {
-      console.error('❌ Erro no microfone:', error);
+      log.error('Erro no microfone:', error);
       
       let errorMessage = "Erro ao acessar o microfone.";
       if (error instanceof DOMException) {
@@ -175,7 +229,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
   };
 
   const startSpeechRecognition = async () => {
-    console.log('🎤 Tentando iniciar gravação de áudio...');
+    log.debug('Tentando iniciar gravação de áudio...');
     
     // Verificar se o navegador suporta Speech Recognition
     if (!('webkitSpeechRecognition' in window) && !('SpeechRecognition' in window)) {
@@ -209,7 +263,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       recognition.maxAlternatives = 1;
 
       recognition.onstart = () => {
-        console.log('🎤 Gravação iniciada');
+        log.debug('Gravação iniciada');
         setIsRecording(true);
         toast({
           title: "Gravação iniciada",
@@ -218,7 +272,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       };
 
       recognition.onresult = (event) => {
-        console.log('📝 Resultado recebido:', event);
+        log.debug('Resultado recebido:', event);
         let interimTranscript = '';
         let finalTranscript = '';
         
@@ -232,17 +286,17 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
         }
         
         if (finalTranscript) {
-          console.log('✅ Transcrição final:', finalTranscript);
+          log.debug('Transcrição final:', finalTranscript);
           setCurrentAnswer(prev => {
             const newAnswer = prev + finalTranscript + ' ';
-            console.log('📝 Resposta atualizada:', newAnswer);
+            log.debug('Resposta atualizada:', newAnswer);
             return newAnswer;
           });
         }
       };
 
       recognition.onerror = (event) => {
-        console.error('❌ Erro na gravação:', event.error);
+        log.error('Erro na gravação:', event.error);
         setIsRecording(false);
         
         let errorMessage = "Ocorreu um erro ao gravar.";
@@ -269,7 +323,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       };
 
       recognition.onend = () => {
-        console.log('🛑 Gravação finalizada');
+        log.debug('Gravação finalizada');
         setIsRecording(false);
       };
 
@@ -277,7 +331,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       recognitionRef.current = recognition;
       
     } catch (error) {
-      console.error('❌ Erro ao acessar microfone:', error);
+      log.error('Erro ao acessar microfone:', error);
       toast({
         title: "Erro de permissão",
         description: "Não foi possível acessar o microfone. Verifique as permissões do navegador.",
@@ -287,7 +341,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
   };
 
   const stopSpeechRecognition = () => {
-    console.log('🛑 Parando gravação...');
+    log.debug('Parando gravação...');
     if (recognitionRef.current) {
       recognitionRef.current.stop();
       setIsRecording(false);
@@ -313,8 +367,33 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
     }
   };
 
+  const requestHint = async () => {
+    if (!nextHint) return;
+
+    const signal = startRequest();
+    setIsLoadingHint(true);
+
+    try {
+      const hint = await groqService.generateHint(
+        currentQuestion,
+        nextHint,
+        hints.map(previous => previous.text),
+        config.area,
+        { signal }
+      );
+      setHints(prev => [...prev, hint]);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      log.error('Erro ao pedir dica:', error);
+    } finally {
+      if (!signal.aborted) {
+        setIsLoadingHint(false);
+      }
+    }
+  };
+
   const submitAnswer = async () => {
-    console.log('🚀 Tentando enviar resposta:', currentAnswer);
+    log.debug('Tentando enviar resposta:', currentAnswer);
     
     if (!currentAnswer.trim()) {
       toast({
@@ -325,96 +404,151 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       return;
     }
 
+    const signal = startRequest();
+    const hintsUsed = hints.map(hint => hint.level);
+    recordAskedQuestion(config.area, config.experience, currentQuestion.text);
     setIsProcessing(true);
-    console.log('⏳ Processando resposta...');
+    setIsLoadingHint(false);
+    setStreamingOverall('');
+    log.debug('Processando resposta...');
 
     try {
-      // Usar o serviço do Groq para avaliar a resposta
+      // Usar o serviço do Groq para avaliar a resposta (comentário chega em streaming)
       const feedback = await groqService.evaluateAnswer(
-        currentQuestion.text,
+        currentQuestion,
         currentAnswer,
-        config.area
+        config.area,
+        {
+          jobDescription: config.jobDescription?.trim(),
+          requiredSkills,
+          onProgress: setStreamingOverall,
+          signal
+        }
       );
 
       const newAnswer: Answer = {
         questionId: currentQuestion.id,
         text: currentAnswer,
-        feedback
+        feedback: { ...feedback, score: applyHintPenalty(feedback.score, hintsUsed) },
+        hintsUsed,
+        answeredAt: Date.now()
       };
 
       setAnswers(prev => [...prev, newAnswer]);
       setShowFeedback(true);
       
-      console.log('✅ Resposta processada com sucesso!');
-      toast({
-        title: "Resposta avaliada!",
-        description: "Feedback gerado com sucesso pela IA.",
-      });
+      log.debug('Resposta processada com sucesso!');
+      toast(EVALUATION_TOASTS[feedback.source]);
     } catch (error) {
-      console.error('❌ Erro ao avaliar resposta:', error);
+      if (isAbortError(error)) return;
+      log.error('Erro ao avaliar resposta:', error);
       
-      // Fallback para dados simulados em caso de erro
-      const mockFeedback: InterviewFeedback = {
-        score: Math.floor(Math.random() * 30) + 70,
-        strengths: [
-          "Resposta bem estruturada",
-          "Exemplos concretos fornecidos",
-          "Demonstra conhecimento técnico"
-        ],
-        improvements: [
-          "Poderia ser mais específico em alguns pontos",
-          "Adicionar mais detalhes sobre resultados obtidos"
-        ],
-        overall: "Avaliação offline - Verifique sua configuração da API key do Groq."
-      };
+      // Fallback para avaliação local em caso de erro
+      const fallbackFeedback = groqService.getFallbackFeedback(currentQuestion, currentAnswer, config.area, requiredSkills);
 
       const newAnswer: Answer = {
         questionId: currentQuestion.id,
         text: currentAnswer,
-        feedback: mockFeedback
+        feedback: { ...fallbackFeedback, score: applyHintPenalty(fallbackFeedback.score, hintsUsed) },
+        hintsUsed,
+        answeredAt: Date.now()
       };
 
       setAnswers(prev => [...prev, newAnswer]);
       setShowFeedback(true);
       
       toast({
-        title: "Modo offline",
-        description: "Configure sua API key do Groq para avaliação completa.",
+        title: error instanceof LLMError && error.kind === 'config' ? "Modo offline" : "Avaliação offline",
+        description: error instanceof LLMError
+          ? error.userMessage
+          : "Não foi possível avaliar com a IA. Usando avaliação local.",
         variant: "destructive"
       });
     } finally {
-      setIsProcessing(false);
+      if (!signal.aborted) {
+        setIsProcessing(false);
+        setStreamingOverall('');
+      }
     }
   };
 
+  const completeInterview = () => {
+    const now = Date.now();
+    const session: StoredSession = {
+      id: sessionIdRef.current,
+      status: 'completed',
+      config,
+      questions,
+      answers,
+      requiredSkills,
+      currentQuestionIndex,
+      startedAt: startedAtRef.current,
+      updatedAt: now,
+      completedAt: now
+    };
+    saveSession(session).catch(error => log.warn('Não foi possível guardar a sessão concluída.', error));
+    onComplete(session);
+  };
+
   const nextQuestion = async () => {
     setCurrentAnswer('');
     setShowFeedback(false);
+    setHints([]);
+
+    // Modo adaptativo: a dificuldade alvo depende das últimas pontuações
+    const targetDifficulty = config.adaptive
+      ? chooseNextDifficulty(
+          currentQuestion.difficulty,
+          answers.filter(answer => answer.feedback).map(answer => answer.feedback!.score)
+        )
+      : undefined;
     
-    if (currentQuestionIndex < totalQuestions - 1 && currentQuestionIndex < questions.length - 1) {
-      // Se ainda há perguntas na lista, vai para a próxima
+    const remaining = questions.slice(currentQuestionIndex + 1);
+    // Pergunta restante com a dificuldade mais próxima do alvo (sem alvo, a seguinte)
+    const picked = targetDifficulty ? pickClosestDifficulty(remaining, targetDifficulty) : 0;
+    // Modo adaptativo: se nenhuma pergunta restante tem a dificuldade alvo, gera-se uma nova nesse nível
+    const needsNewQuestion = remaining.length === 0 || (targetDifficulty && remaining[picked].difficulty !== targetDifficulty);
+
+    const goToRemaining = () => {
+      if (picked > 0) {
+        setQuestions([
+          ...questions.slice(0, currentQuestionIndex + 1),
+          remaining[picked],
+          ...remaining.filter((_, index) => index !== picked)
+        ]);
+      }
       setCurrentQuestionIndex(prev => prev + 1);
+    };
+
+    if (currentQuestionIndex < totalQuestions - 1 && !needsNewQuestion) {
+      // Se ainda há perguntas adequadas na lista, vai para a próxima
+      goToRemaining();
     } else if (currentQuestionIndex < totalQuestions - 1) {
-      // Se chegou no fim das perguntas mas ainda não atingiu o limite, gera follow-up
+      // Sem perguntas restantes (ou nenhuma no nível alvo) e ainda abaixo do limite: gera follow-up
+      const signal = startRequest();
       try {
         const lastAnswer = answers[answers.length - 1];
         if (lastAnswer) {
-          console.log('🔄 Gerando pergunta de follow-up...');
+          log.debug('Gerando pergunta de follow-up...');
           setIsProcessing(true);
+          setStreamingFollowUp('');
           
+          // Transcrição completa até à pergunta atual, para o follow-up não repetir temas
+          const transcript = buildTranscript(questions.slice(0, currentQuestionIndex + 1), answers);
+
           const followUpQuestion = await groqService.generateFollowUpQuestion(
-            currentQuestion.text,
-            lastAnswer.text,
-            config.area
+            transcript,
+            config.area,
+            { onProgress: setStreamingFollowUp, signal, difficulty: targetDifficulty }
           );
           
           const newQuestion: Question = {
-            id: questions.length + 1,
-            text: followUpQuestion,
-            category: "Follow-up"
+            ...followUpQuestion,
+            id: questions.length + 1
           };
           
-          setQuestions(prev => [...prev, newQuestion]);
+          // Entra logo a seguir à pergunta atual; as restantes continuam disponíveis
+          setQuestions(prev => [...prev.slice(0, currentQuestionIndex + 1), newQuestion, ...prev.slice(currentQuestionIndex + 1)]);
           setCurrentQuestionIndex(prev => prev + 1);
           
           toast({
@@ -423,27 +557,26 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
           });
         }
       } catch (error) {
-        console.error('❌ Erro ao gerar follow-up:', error);
-        // Se não conseguir gerar follow-up, finaliza a entrevista
-        setInterviewCompleted(true);
+        if (isAbortError(error)) return;
+        log.error('Erro ao gerar follow-up:', error);
+        // Se não conseguir gerar follow-up, segue com a pergunta restante mais próxima ou finaliza a entrevista
+        if (remaining.length > 0) {
+          goToRemaining();
+        } else {
+          completeInterview();
+        }
       } finally {
-        setIsProcessing(false);
+        if (!signal.aborted) {
+          setIsProcessing(false);
+          setStreamingFollowUp('');
+        }
       }
     } else {
       // Finaliza a entrevista
-      setInterviewCompleted(true);
+      completeInterview();
     }
   };
 
-  const finishInterview = () => {
-    // Voltar para a tela inicial
-    onBackToSetup();
-    toast({
-      title: "Entrevista finalizada!",
-      description: "Obrigado por participar. Boa sorte!",
-    });
-  };
-
   // Tela de carregamento
   if (isLoadingQuestions) {
     return (
@@ -463,57 +596,6 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
     );
   }
 
-  // Tela de entrevista finalizada
-  if (interviewCompleted) {
-    const averageScore = answers.length > 0 
-      ? Math.round(answers.reduce((sum, answer) => sum + (answer.feedback?.score || 0), 0) / answers.length)
-      : 0;
-
-    return (
-      <div className="min-h-screen bg-background p-4 flex items-center justify-center">
-        <Card className="w-full max-w-2xl">
-          <CardHeader>
-            <CardTitle className="text-center flex items-center justify-center gap-2">
-              <CheckCircle className="h-6 w-6 text-green-500" />
-              Entrevista Finalizada!
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            <div className="text-center">
-              <div className="text-3xl font-bold text-primary mb-2">{averageScore}/100</div>
-              <p className="text-muted-foreground">Pontuação média</p>
-            </div>
-            
-            <div className="space-y-4">
-              <h3 className="font-semibold">Resumo da entrevista:</h3>
-              <div className="grid grid-cols-2 gap-4 text-sm">
-                <div>
-                  <span className="font-medium">Candidato:</span> {config.candidateName}
-                </div>
-                <div>
-                  <span className="font-medium">Área:</span> {config.area}
-                </div>
-                <div>
-                  <span className="font-medium">Experiência:</span> {config.experience}
-                </div>
-                <div>
-                  <span className="font-medium">Perguntas respondidas:</span> {answers.length}
-                </div>
-              </div>
-            </div>
-
-            <div className="flex justify-center">
-              <Button onClick={finishInterview} className="flex items-center gap-2">
-                <Home className="h-4 w-4" />
-                Voltar ao Início
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   // Se não há pergunta atual, não renderiza nada
   if (!currentQuestion) {
     return null;
@@ -524,7 +606,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
       <div className="max-w-4xl mx-auto space-y-6">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <Button variant="ghost" onClick={onBackToSetup}>
+          <Button variant="ghost" onClick={handleBackToSetup}>
             <ArrowLeft className="h-4 w-4 mr-2" />
             Voltar à Configuração
           </Button>
@@ -534,7 +616,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
               {config.mode === 'quick' ? 'Prática Rápida' : 'Simulação Completa'}
             </Badge>
             <div className="text-sm text-muted-foreground">
-              Pergunta {currentQuestionIndex + 1} de {Math.max(totalQuestions, questions.length)}
+              Pergunta {currentQuestionIndex + 1} de {totalQuestions}
             </div>
           </div>
         </div>
@@ -574,17 +656,57 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
                   <MessageCircle className="h-5 w-5 text-primary" />
                   Entrevistador
                 </CardTitle>
-                <Badge variant="outline">{currentQuestion.category}</Badge>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{CATEGORY_LABELS[currentQuestion.category]}</Badge>
+                  <Badge variant="secondary">{DIFFICULTY_LABELS[currentQuestion.difficulty]}</Badge>
+                </div>
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="bg-muted/50 p-4 rounded-lg">
+              <div className="bg-muted/50 p-4 rounded-lg space-y-2">
                 <p className="text-lg leading-relaxed">{currentQuestion.text}</p>
+                <p className="text-xs text-muted-foreground">Competência avaliada: {currentQuestion.competency}</p>
+              </div>
+              {hints.length > 0 && (
+                <div className="space-y-2">
+                  {hints.map(hint => (
+                    <div key={hint.level} className="flex items-start gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3 text-sm">
+                      <Lightbulb className="h-4 w-4 text-amber-600 dark:text-amber-400 mt-0.5 shrink-0" />
+                      <p>
+                        <span className="font-medium">{HINT_LABELS[hint.level]}:</span> {hint.text}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isProcessing && streamingFollowUp && (
+                <div className="border border-dashed p-3 rounded-lg space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Próxima pergunta:</p>
+                  <p className="text-sm">
+                    {streamingFollowUp}
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+                  </p>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button onClick={speakQuestion} variant="outline" className="flex-1">
+                  <Volume2 className="h-4 w-4 mr-2" />
+                  Ouvir Pergunta
+                </Button>
+                <Button
+                  onClick={requestHint}
+                  variant="outline"
+                  className="flex-1"
+                  disabled={!nextHint || isLoadingHint || isProcessing || showFeedback}
+                >
+                  <Lightbulb className="h-4 w-4 mr-2" />
+                  {isLoadingHint
+                    ? "A pensar..."
+                    : nextHint
+                      ? `Pedir dica (−${HINT_PENALTIES[nextHint]} pts)`
+                      : "Sem mais dicas"}
+                </Button>
               </div>
-              <Button onClick={speakQuestion} variant="outline" className="w-full">
-                <Volume2 className="h-4 w-4 mr-2" />
-                Ouvir Pergunta
-              </Button>
             </CardContent>
           </Card>
 
@@ -626,7 +748,7 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
                     
                     <Button
                       onClick={submitAnswer}
-                      disabled={!currentAnswer.trim() || isProcessing}
+                      disabled={!currentAnswer.trim() || isProcessing || isLoadingHint}
                       className="flex-1"
                     >
                       {isProcessing ? (
@@ -648,6 +770,16 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
                       </span>
                     </div>
                   )}
+
+                  {isProcessing && streamingOverall && (
+                    <div className="bg-muted/50 p-3 rounded-lg space-y-1">
+                      <p className="text-xs font-medium text-muted-foreground">A IA está avaliando...</p>
+                      <p className="text-sm">
+                        {streamingOverall}
+                        <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-primary animate-pulse" />
+                      </p>
+                    </div>
+                  )}
                 </>
               ) : (
                 <div className="space-y-4">
@@ -658,42 +790,24 @@ const InterviewSession = ({ config, onBackToSetup }: InterviewSessionProps) => {
                   
                   {answers[answers.length - 1]?.feedback && (
                     <div className="space-y-3">
-                      <div className="flex items-center gap-2">
-                        <span>Pontuação:</span>
-                        <Badge variant="secondary">
-                          {answers[answers.length - 1].feedback!.score}/100
-                        </Badge>
-                      </div>
-                      
-                      <Separator />
-                      
-                      <div>
-                        <h4 className="font-medium text-success mb-2">Pontos Fortes:</h4>
-                        <ul className="text-sm space-y-1">
-                          {answers[answers.length - 1].feedback!.strengths.map((strength, index) => (
-                            <li key={index} className="flex items-start gap-2">
-                              <span className="text-success">•</span>
-                              {strength}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                      
-                      <div>
-                        <h4 className="font-medium text-accent mb-2">Sugestões de Melhoria:</h4>
-                        <ul className="text-sm space-y-1">
-                          {answers[answers.length - 1].feedback!.improvements.map((improvement, index) => (
-                            <li key={index} className="flex items-start gap-2">
-                              <span className="text-accent">•</span>
-                              {improvement}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                      
-                      <div className="bg-muted/50 p-3 rounded-lg">
-                        <p className="text-sm">{answers[answers.length - 1].feedback!.overall}</p>
-                      </div>
+                      <FeedbackDetails answer={answers[answers.length - 1]} />
+
+                      {answers[answers.length - 1].feedback!.improvements.length > 0 && (
+                        <ImprovedAnswerPanel
+                          key={`improve-${currentQuestion.id}`}
+                          question={currentQuestion}
+                          answer={answers[answers.length - 1].text}
+                          improvements={answers[answers.length - 1].feedback!.improvements}
+                          jobRole={config.area}
+                        />
+                      )}
+
+                      <ModelAnswerPanel
+                        key={currentQuestion.id}
+                        question={currentQuestion}
+                        jobRole={config.area}
+                        experienceLevel={config.experience}
+                      />
                     </div>
                   )}
                   
@@ -6,24 +6,26 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Briefcase, Clock, User, FileText, Play } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Link } from "react-router-dom";
+import { Briefcase, Clock, User, FileText, Play, TrendingUp, History, LineChart } from "lucide-react";
 import heroImage from "@/assets/interview-hero.jpg";
+import PrivacySettings from "./PrivacySettings";
+import ProviderSettings from "./ProviderSettings";
+import RubricWeightsSettings from "./RubricWeightsSettings";
+import UnfinishedSessions from "./UnfinishedSessions";
+import type { StoredSession } from "@/services/sessionStore";
+import type { InterviewConfig } from "@/services/types";
 
 interface InterviewSetupProps {
   onStartInterview: (config: InterviewConfig) => void;
+  onResumeInterview: (session: StoredSession) => void;
 }
 
-export interface InterviewConfig {
-  mode: 'quick' | 'complete';
-  area: string;
-  experience: string;
-  jobDescription?: string;
-  candidateName: string;
-}
-
-const InterviewSetup = ({ onStartInterview }: InterviewSetupProps) => {
+const InterviewSetup = ({ onStartInterview, onResumeInterview }: InterviewSetupProps) => {
   const [config, setConfig] = useState<InterviewConfig>({
     mode: 'quick',
+    adaptive: false,
     area: '',
     experience: '',
     candidateName: '',
@@ -76,11 +78,27 @@ const InterviewSetup = ({ onStartInterview }: InterviewSetupProps) => {
           <p className="text-xl md:text-2xl opacity-90 mb-8">
             Treine, pratique e melhore as suas competências de entrevista com feedback personalizado de IA
           </p>
+          <div className="flex flex-wrap justify-center gap-3">
+            <Button variant="secondary" asChild>
+              <Link to="/history">
+                <History className="h-4 w-4 mr-2" />
+                Histórico de Entrevistas
+              </Link>
+            </Button>
+            <Button variant="secondary" asChild>
+              <Link to="/progress">
+                <LineChart className="h-4 w-4 mr-2" />
+                O Seu Progresso
+              </Link>
+            </Button>
+          </div>
         </div>
       </div>
 
       {/* Configuration Section */}
-      <div className="max-w-2xl mx-auto p-4 -mt-8 relative z-10">
+      <div className="max-w-2xl mx-auto p-4 -mt-8 relative z-10 space-y-6">
+        <UnfinishedSessions onResume={onResumeInterview} />
+
         <Card className="shadow-card">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -141,6 +159,24 @@ const InterviewSetup = ({ onStartInterview }: InterviewSetupProps) => {
                 </div>
               </div>
 
+              {/* Dificuldade Adaptativa */}
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="space-y-1">
+                  <Label htmlFor="adaptive" className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4" />
+                    Dificuldade adaptativa
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Perguntas mais difíceis depois de boas respostas e de consolidação depois de respostas fracas
+                  </p>
+                </div>
+                <Switch
+                  id="adaptive"
+                  checked={config.adaptive}
+                  onCheckedChange={(checked) => setConfig({ ...config, adaptive: checked })}
+                />
+              </div>
+
               {/* Área de Atuação */}
               <div className="space-y-2">
                 <Label htmlFor="area">Área de Atuação</Label>
@@ -194,6 +230,15 @@ const InterviewSetup = ({ onStartInterview }: InterviewSetupProps) => {
                 </p>
               </div>
 
+              {/* Privacidade */}
+              <PrivacySettings />
+
+              {/* Pesos da rubrica */}
+              <RubricWeightsSettings />
+
+              {/* Backend de IA */}
+              <ProviderSettings />
+
               {/* Botão de Início */}
               <Button 
                 type="submit" 
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, Sparkles } from "lucide-react";
+import { groqService, type ModelAnswer } from "@/services/groqService";
+import { isAbortError } from "@/services/llmErrors";
+import type { ModelAnswerKeyPoint } from "@/services/schemas";
+import type { InterviewQuestion } from "@/services/questions";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger('model-answer');
+
+interface ModelAnswerPanelProps {
+  question: InterviewQuestion;
+  jobRole: string;
+  experienceLevel: string;
+}
+
+interface AnswerSegment {
+  text: string;
+  keyPointIndex?: number;
+}
+
+// Parte a resposta em segmentos, marcando os trechos que cobrem cada ponto-chave
+function splitByKeyPoints(answer: string, keyPoints: ModelAnswerKeyPoint[]): AnswerSegment[] {
+  const lowerAnswer = answer.toLowerCase();
+  const ranges = keyPoints
+    .map((keyPoint, keyPointIndex) => {
+      const start = lowerAnswer.indexOf(keyPoint.excerpt.toLowerCase());
+      return { start, end: start + keyPoint.excerpt.length, keyPointIndex };
+    })
+    .filter(range => range.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  const segments: AnswerSegment[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    // Trechos sobrepostos: fica o primeiro
+    if (range.start < cursor) continue;
+    if (range.start > cursor) {
+      segments.push({ text: answer.slice(cursor, range.start) });
+    }
+    segments.push({ text: answer.slice(range.start, range.end), keyPointIndex: range.keyPointIndex });
+    cursor = range.end;
+  }
+  if (cursor < answer.length) {
+    segments.push({ text: answer.slice(cursor) });
+  }
+
+  return segments;
+}
+
+const ModelAnswerPanel = ({ question, jobRole, experienceLevel }: ModelAnswerPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [modelAnswer, setModelAnswer] = useState<ModelAnswer | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  // Só pedimos a resposta modelo quando o painel é aberto pela primeira vez
+  useEffect(() => {
+    if (!isOpen || modelAnswer) return;
+
+    const controller = new AbortController();
+
+    const loadModelAnswer = async () => {
+      setHasFailed(false);
+      try {
+        const generated = await groqService.generateModelAnswer(
+          question,
+          jobRole,
+          experienceLevel,
+          { signal: controller.signal }
+        );
+        setModelAnswer(generated);
+      } catch (error) {
+        if (isAbortError(error)) return;
+        log.error('Erro ao carregar resposta modelo:', error);
+        setHasFailed(true);
+      }
+    };
+
+    loadModelAnswer();
+
+    return () => controller.abort();
+  }, [isOpen, modelAnswer, question, jobRole, experienceLevel]);
+
+  // Até haver resultado ou erro mostra-se o carregamento, para a mensagem de erro não piscar ao abrir
+  const isLoading = !modelAnswer && !hasFailed;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4 text-primary" />
+            Ver resposta modelo
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-3">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+            A preparar uma resposta exemplar...
+          </div>
+        ) : modelAnswer ? (
+          <>
+            {modelAnswer.source === 'fallback' && (
+              <Badge variant="outline" className="text-xs">Roteiro local</Badge>
+            )}
+            <p className="text-sm leading-relaxed">
+              {splitByKeyPoints(modelAnswer.answer, modelAnswer.keyPoints).map((segment, index) =>
+                segment.keyPointIndex === undefined ? (
+                  <span key={index}>{segment.text}</span>
+                ) : (
+                  <mark
+                    key={index}
+                    title={modelAnswer.keyPoints[segment.keyPointIndex].point}
+                    className="bg-success/20 text-foreground rounded px-0.5"
+                  >
+                    {segment.text}
+                  </mark>
+                )
+              )}
+            </p>
+            <div>
+              <h4 className="text-xs font-medium text-muted-foreground mb-1">Pontos-chave cobertos:</h4>
+              <ul className="text-sm space-y-1">
+                {modelAnswer.keyPoints.map((keyPoint, index) => (
+                  <li key={index} className="flex items-start gap-2">
+                    <span className="text-success">•</span>
+                    {keyPoint.point}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Não foi possível gerar a resposta modelo.</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ModelAnswerPanel;
@@ -0,0 +1,45 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { PracticeWeek } from "@/services/sessionStats";
+
+interface PracticeFrequencyChartProps {
+  weeks: PracticeWeek[];
+}
+
+const chartConfig = {
+  sessions: {
+    label: "Entrevistas",
+    color: "hsl(var(--accent))",
+  },
+} satisfies ChartConfig;
+
+// Entrevistas concluídas por semana
+const PracticeFrequencyChart = ({ weeks }: PracticeFrequencyChartProps) => {
+  const data = weeks.map(week => ({
+    week: new Date(week.weekStart).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' }),
+    sessions: week.sessions,
+    answers: week.answers,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[200px] w-full">
+      <BarChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="week" tickLine={false} axisLine={false} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+        <ChartTooltip
+          cursor={false}
+          content={
+            <ChartTooltipContent
+              labelFormatter={(label) => `Semana de ${label}`}
+              formatter={(value, _, item) => `${value} entrevista(s) · ${item.payload.answers} resposta(s)`}
+            />
+          }
+        />
+        <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default PracticeFrequencyChart;
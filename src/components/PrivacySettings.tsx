@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { ChevronDown, ShieldCheck } from "lucide-react";
+import { getRedactionSettings, saveRedactionSettings, type RedactionSettings } from "@/services/redaction";
+
+type RedactionToggle = 'emails' | 'phones' | 'documents' | 'urls';
+
+const TOGGLE_LABELS: Record<RedactionToggle, string> = {
+  emails: 'E-mails',
+  phones: 'Telefones',
+  documents: 'CPF / NIF',
+  urls: 'Links (URLs)',
+};
+
+// Configuração da ocultação de dados pessoais (guardada no navegador)
+const PrivacySettings = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<RedactionSettings>(getRedactionSettings);
+  const [namesText, setNamesText] = useState(() => settings.names.join('\n'));
+
+  const update = (changes: Partial<RedactionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveRedactionSettings(next);
+  };
+
+  const updateNames = (value: string) => {
+    setNamesText(value);
+    update({
+      names: value
+        .split('\n')
+        .map(name => name.trim())
+        .filter(Boolean)
+    });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4" />
+            Privacidade
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="redaction-enabled">Ocultar dados pessoais</Label>
+            <p className="text-xs text-muted-foreground">
+              Substitui os dados por marcadores (ex.: [EMAIL_1]) antes de enviar o texto à IA; no ecrã continua a ver o texto original.
+            </p>
+          </div>
+          <Switch
+            id="redaction-enabled"
+            checked={settings.enabled}
+            onCheckedChange={(checked) => update({ enabled: checked })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(TOGGLE_LABELS) as RedactionToggle[]).map(key => (
+            <div key={key} className="flex items-center gap-2">
+              <Checkbox
+                id={`redaction-${key}`}
+                checked={settings[key]}
+                disabled={!settings.enabled}
+                onCheckedChange={(checked) => update({ [key]: checked === true })}
+              />
+              <Label htmlFor={`redaction-${key}`} className="text-sm font-normal">{TOGGLE_LABELS[key]}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="redaction-names">Nomes a ocultar</Label>
+          <Textarea
+            id="redaction-names"
+            value={namesText}
+            onChange={(e) => updateNames(e.target.value)}
+            placeholder={"Um por linha: empresas, colegas, clientes...\nO nome do candidato é ocultado automaticamente."}
+            rows={3}
+            disabled={!settings.enabled}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default PrivacySettings;
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, Cpu } from "lucide-react";
+import { groqService } from "@/services/groqService";
+import { getLLMSettings, getStoredLLMSettings, saveLLMSettings, type LLMProviderType, type LLMSettings } from "@/services/llmProviders";
+
+const PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  openai: 'API compatível com OpenAI (Groq, OpenAI...)',
+  local: 'Servidor local (Ollama)',
+  mock: 'Simulação (sem rede)',
+};
+
+// Escolha do backend de IA; sobrepõe-se às variáveis de ambiente e é guardada no navegador
+const ProviderSettings = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [overrides, setOverrides] = useState<Partial<LLMSettings>>(getStoredLLMSettings);
+  const [isConfigured, setIsConfigured] = useState(() => groqService.isConfigured());
+  const effective = getLLMSettings();
+
+  const apply = (next: Partial<LLMSettings> | null) => {
+    setOverrides(next ?? {});
+    saveLLMSettings(next);
+    groqService.configure();
+    setIsConfigured(groqService.isConfigured());
+  };
+
+  const update = (changes: Partial<LLMSettings>) => {
+    const next = { ...overrides, ...changes };
+    // Campos vazios voltam ao valor das variáveis de ambiente ou ao padrão do provider
+    (Object.keys(next) as (keyof LLMSettings)[]).forEach(key => {
+      if (!next[key]) delete next[key];
+    });
+    apply(Object.keys(next).length > 0 ? next : null);
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <Cpu className="h-4 w-4" />
+            Modelo de IA
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="llm-provider">Provider</Label>
+          <Select
+            value={effective.provider}
+            // Ao trocar de provider, o endereço e o modelo voltam aos do novo provider
+            onValueChange={(value) => update({ provider: value as LLMProviderType, baseUrl: '', model: '' })}
+          >
+            <SelectTrigger id="llm-provider">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PROVIDER_LABELS) as LLMProviderType[]).map(provider => (
+                <SelectItem key={provider} value={provider}>{PROVIDER_LABELS[provider]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {effective.provider !== 'mock' && (
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="llm-base-url">Endereço</Label>
+              <Input
+                id="llm-base-url"
+                value={overrides.baseUrl ?? ''}
+                onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+                placeholder={effective.baseUrl}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="llm-model">Modelo</Label>
+              <Input
+                id="llm-model"
+                value={overrides.model ?? ''}
+                onChange={(e) => update({ model: e.target.value.trim() })}
+                placeholder={effective.model}
+              />
+            </div>
+          </div>
+        )}
+
+        {effective.provider === 'openai' && (
+          <div className="space-y-2">
+            <Label htmlFor="llm-api-key">API key</Label>
+            <Input
+              id="llm-api-key"
+              type="password"
+              autoComplete="off"
+              value={overrides.apiKey ?? ''}
+              onChange={(e) => update({ apiKey: e.target.value.trim() })}
+              placeholder={effective.apiKey ? 'Definida em VITE_GROQ_API_KEY' : 'Cole aqui a sua API key'}
+            />
+            <p className="text-xs text-muted-foreground">
+              A chave fica guardada apenas neste navegador. Servidores próprios com outro endereço podem dispensá-la.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <p className={`text-xs ${isConfigured ? 'text-muted-foreground' : 'text-destructive'}`}>
+            {isConfigured
+              ? `A usar ${effective.model} (${effective.provider}).`
+              : 'Sem API key: as perguntas e avaliações usam o modo offline.'}
+          </p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={Object.keys(overrides).length === 0}
+            onClick={() => apply(null)}
+          >
+            Repor padrão
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,66 @@
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { getCriterionLabel, getCriterionWeights, RUBRIC_CRITERIA, type CriterionScore } from "@/services/rubric";
+
+interface RubricChartProps {
+  criteria: CriterionScore[];
+  showJustifications?: boolean;
+}
+
+const chartConfig = {
+  score: {
+    label: "Pontuação",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const RubricChart = ({ criteria, showJustifications = true }: RubricChartProps) => {
+  const weights = getCriterionWeights();
+
+  // Mantém a ordem da rubrica, independentemente da ordem devolvida pela IA
+  const orderedCriteria = RUBRIC_CRITERIA
+    .map(({ key }) => criteria.find(item => item.criterion === key))
+    .filter((item): item is CriterionScore => Boolean(item));
+
+  const data = orderedCriteria.map(item => ({
+    criterion: getCriterionLabel(item.criterion),
+    score: item.score,
+  }));
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[260px]">
+        <RadarChart data={data} outerRadius="70%">
+          <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+          <PolarGrid />
+          <PolarAngleAxis dataKey="criterion" tick={{ fontSize: 10 }} />
+          <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+          <Radar
+            dataKey="score"
+            fill="var(--color-score)"
+            fillOpacity={0.4}
+            stroke="var(--color-score)"
+          />
+        </RadarChart>
+      </ChartContainer>
+
+      {showJustifications && (
+        <ul className="text-sm space-y-2">
+          {orderedCriteria.map(item => (
+            <li key={item.criterion}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{getCriterionLabel(item.criterion)}</span>
+                <span className="text-muted-foreground">
+                  {item.score}/100 · peso {weights[item.criterion]}
+                </span>
+              </div>
+              <p className="text-muted-foreground text-xs">{item.justification}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RubricChart;
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ChevronDown, Scale } from "lucide-react";
+import {
+  DEFAULT_CRITERION_WEIGHTS,
+  getCriterionWeights,
+  RUBRIC_CRITERIA,
+  saveCriterionWeights,
+  type CriterionWeights,
+} from "@/services/rubric";
+
+const MAX_WEIGHT = 3;
+const WEIGHT_STEP = 0.25;
+
+// Pesos de cada critério na pontuação final (guardados no navegador; só ficam os que diferem do padrão)
+const RubricWeightsSettings = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [weights, setWeights] = useState<CriterionWeights>(getCriterionWeights);
+
+  const update = (next: CriterionWeights) => {
+    setWeights(next);
+    const overrides = RUBRIC_CRITERIA
+      .filter(({ key }) => next[key] !== DEFAULT_CRITERION_WEIGHTS[key])
+      .reduce<Partial<CriterionWeights>>((result, { key }) => ({ ...result, [key]: next[key] }), {});
+    saveCriterionWeights(Object.keys(overrides).length > 0 ? overrides : null);
+  };
+
+  const isDefault = RUBRIC_CRITERIA.every(({ key }) => weights[key] === DEFAULT_CRITERION_WEIGHTS[key]);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="border rounded-lg">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between">
+          <span className="flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Pesos da avaliação
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-3 space-y-4">
+        <p className="text-xs text-muted-foreground">
+          A pontuação de cada resposta é a média ponderada dos critérios. Um peso 0 ignora o critério.
+        </p>
+
+        {RUBRIC_CRITERIA.map(({ key, label, description }) => (
+          <div key={key} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <Label htmlFor={`weight-${key}`} title={description}>{label}</Label>
+              <span className="text-muted-foreground">{weights[key].toFixed(2)}</span>
+            </div>
+            <Slider
+              id={`weight-${key}`}
+              min={0}
+              max={MAX_WEIGHT}
+              step={WEIGHT_STEP}
+              value={[weights[key]]}
+              onValueChange={([value]) => update({ ...weights, [key]: value })}
+            />
+          </div>
+        ))}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            disabled={isDefault}
+            onClick={() => update(DEFAULT_CRITERION_WEIGHTS)}
+          >
+            Repor padrão
+          </Button>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default RubricWeightsSettings;
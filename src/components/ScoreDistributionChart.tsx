@@ -0,0 +1,40 @@
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { WEAK_SCORE_THRESHOLD, type ScoreBucket } from "@/services/sessionStats";
+
+interface ScoreDistributionChartProps {
+  buckets: ScoreBucket[];
+}
+
+const chartConfig = {
+  count: {
+    label: "Respostas",
+    color: "hsl(var(--primary))",
+  },
+  weak: {
+    label: "A repetir",
+    color: "hsl(var(--accent))",
+  },
+} satisfies ChartConfig;
+
+// Número de respostas por intervalo de pontuação; os intervalos fracos ficam destacados
+const ScoreDistributionChart = ({ buckets }: ScoreDistributionChartProps) => (
+  <ChartContainer config={chartConfig} className="aspect-auto h-[180px] w-full">
+    <BarChart data={buckets} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+      <ChartTooltip
+        cursor={false}
+        content={<ChartTooltipContent labelFormatter={(label) => `Pontuação ${label}`} formatter={(value) => `${value} resposta(s)`} />}
+      />
+      <Bar dataKey="count" radius={4}>
+        {buckets.map(bucket => (
+          <Cell key={bucket.label} fill={bucket.max < WEAK_SCORE_THRESHOLD ? 'var(--color-weak)' : 'var(--color-count)'} />
+        ))}
+      </Bar>
+    </BarChart>
+  </ChartContainer>
+);
+
+export default ScoreDistributionChart;
@@ -0,0 +1,47 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { ScoreTrendPoint } from "@/services/sessionStats";
+
+interface ScoreTrendChartProps {
+  points: ScoreTrendPoint[];
+}
+
+const chartConfig = {
+  averageScore: {
+    label: "Pontuação média",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const formatDay = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+
+// Pontuação média de cada entrevista ao longo do tempo
+const ScoreTrendChart = ({ points }: ScoreTrendChartProps) => {
+  const data = points.map((point, index) => ({
+    session: `#${index + 1}`,
+    day: formatDay(point.date),
+    averageScore: point.averageScore,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[240px] w-full">
+      <LineChart data={data} margin={{ top: 8, right: 8, left: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="day" tickLine={false} axisLine={false} />
+        <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `Entrevista ${payload?.[0]?.payload?.session ?? ''} · ${payload?.[0]?.payload?.day ?? ''}`}
+              formatter={(value) => `Pontuação média: ${value}/100`}
+            />
+          }
+        />
+        <Line type="monotone" dataKey="averageScore" stroke="var(--color-averageScore)" strokeWidth={2} dot />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default ScoreTrendChart;
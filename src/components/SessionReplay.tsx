@@ -0,0 +1,79 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Lightbulb } from "lucide-react";
+import FeedbackDetails from "./FeedbackDetails";
+import { CATEGORY_LABELS, DIFFICULTY_LABELS } from "@/services/questions";
+import { HINT_LABELS } from "@/services/hints";
+import { getAverageScore, MODE_LABELS } from "@/services/sessionStats";
+import type { StoredSession } from "@/services/sessionStore";
+
+interface SessionReplayProps {
+  session: StoredSession;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Reprodução de uma entrevista guardada: cada pergunta com a resposta e o feedback tal como ficaram registados
+const SessionReplay = ({ session }: SessionReplayProps) => {
+  const { config, questions, answers } = session;
+  const answeredQuestions = questions
+    .map(question => ({ question, answer: answers.find(answer => answer.questionId === question.id) }))
+    .filter(item => item.answer);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{config.area} · {config.experience}</CardTitle>
+          <CardDescription>
+            {config.candidateName} · {formatDateTime(session.completedAt ?? session.updatedAt)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2 text-sm">
+          <Badge variant="secondary">{MODE_LABELS[config.mode]}</Badge>
+          {config.adaptive && <Badge variant="outline">Dificuldade adaptativa</Badge>}
+          <span className="text-muted-foreground">
+            Média {getAverageScore(answers)}/100 · {answers.length} pergunta(s) respondida(s)
+          </span>
+        </CardContent>
+      </Card>
+
+      {answeredQuestions.map(({ question, answer }, index) => (
+        <Card key={question.id} className="shadow-interview">
+          <CardHeader>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline">Pergunta {index + 1}</Badge>
+              <Badge variant="secondary">{CATEGORY_LABELS[question.category]}</Badge>
+              <Badge variant="outline">{question.competency}</Badge>
+              <Badge variant="outline">{DIFFICULTY_LABELS[question.difficulty]}</Badge>
+            </div>
+            <CardTitle className="text-lg leading-relaxed">{question.text}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-1">
+              <h4 className="font-medium">Resposta:</h4>
+              <p className="text-sm whitespace-pre-wrap bg-muted/50 p-3 rounded-lg">{answer.text}</p>
+              {answer.answeredAt && (
+                <p className="text-xs text-muted-foreground">Respondida em {formatDateTime(answer.answeredAt)}</p>
+              )}
+            </div>
+
+            {answer.hintsUsed && answer.hintsUsed.length > 0 && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lightbulb className="h-4 w-4" />
+                Dicas usadas: {answer.hintsUsed.map(level => HINT_LABELS[level]).join(', ')}
+              </div>
+            )}
+
+            <Separator />
+            <FeedbackDetails answer={answer} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default SessionReplay;
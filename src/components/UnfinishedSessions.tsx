@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Play, Trash2 } from "lucide-react";
+import { deleteSession, getUnfinishedSessions, type StoredSession } from "@/services/sessionStore";
+import { createLogger } from "@/services/logger";
+import { getQuestionTarget, MODE_LABELS } from "@/services/sessionStats";
+
+const log = createLogger('sessions');
+
+interface UnfinishedSessionsProps {
+  onResume: (session: StoredSession) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Entrevistas interrompidas (refresh, "Voltar à Configuração"...) que ainda podem ser retomadas
+const UnfinishedSessions = ({ onResume }: UnfinishedSessionsProps) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUnfinishedSessions().then(unfinished => {
+      if (!cancelled) setSessions(unfinished);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const discard = async (id: string) => {
+    try {
+      await deleteSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+    } catch (error) {
+      log.error('Erro ao descartar sessão:', error);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Entrevistas por terminar
+        </CardTitle>
+        <CardDescription>
+          As respostas e o feedback ficaram guardados neste navegador.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessions.map(session => {
+          const total = getQuestionTarget(session.config);
+          return (
+            <div key={session.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border rounded-lg p-3">
+              <div className="space-y-1">
+                <div className="font-medium">{session.config.area} · {session.config.experience}</div>
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  <Badge variant="secondary">{MODE_LABELS[session.config.mode]}</Badge>
+                  <span>{session.answers.length} de {total} respondidas</span>
+                  <span>· {formatDate(session.updatedAt)}</span>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => discard(session.id)} title="Descartar">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button size="sm" onClick={() => onResume(session)}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Continuar entrevista
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UnfinishedSessions;
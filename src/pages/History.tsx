@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, History as HistoryIcon, Search, Upload } from "lucide-react";
+import SessionReplay from "@/components/SessionReplay";
+import { useToast } from "@/hooks/use-toast";
+import { getSession, listSessions, saveSession, type StoredSession } from "@/services/sessionStore";
+import { parseSessionExport, SessionImportError } from "@/services/sessionExport";
+import { getAverageScore, MODE_LABELS } from "@/services/sessionStats";
+import { createLogger } from "@/services/logger";
+import { normalizeText } from "@/services/text";
+
+const log = createLogger('history');
+
+// Valor dos selects quando não há filtro (o Radix Select não aceita string vazia)
+const ALL = 'all';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+// Pesquisa na área, experiência, nome do candidato e no texto das perguntas e respostas
+const matchesSearch = (session: StoredSession, search: string) => {
+  const terms = normalizeText(search).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = normalizeText([
+    session.config.area,
+    session.config.experience,
+    session.config.candidateName,
+    ...session.questions.map(question => question.text),
+    ...session.answers.map(answer => answer.text),
+  ].join(' '));
+  return terms.every(term => haystack.includes(term));
+};
+
+const uniqueValues = (values: string[]) => [...new Set(values)].sort((a, b) => a.localeCompare(b, 'pt'));
+
+const History = () => {
+  const { sessionId } = useParams<{ sessionId?: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [selectedSession, setSelectedSession] = useState<StoredSession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [areaFilter, setAreaFilter] = useState(ALL);
+  const [experienceFilter, setExperienceFilter] = useState(ALL);
+  const [modeFilter, setModeFilter] = useState(ALL);
+
+  // Lista de sessões concluídas, ou a sessão aberta em /history/:sessionId
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    const load = async () => {
+      try {
+        if (sessionId) {
+          const session = await getSession(sessionId);
+          if (!cancelled) setSelectedSession(session?.status === 'completed' ? session : null);
+        } else {
+          const completed = await listSessions('completed');
+          if (!cancelled) setSessions(completed);
+        }
+      } catch (error) {
+        log.error('Erro ao carregar o histórico:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Importar de novo a mesma entrevista substitui a cópia guardada (o id é preservado)
+  const importSession = async (file: File) => {
+    try {
+      const session = parseSessionExport(await file.text());
+      await saveSession(session);
+      setSessions(current => [session, ...current.filter(item => item.id !== session.id)]
+        .sort((a, b) => b.updatedAt - a.updatedAt));
+      toast({
+        title: "Entrevista importada",
+        description: `${session.config.area} · ${formatDate(session.completedAt ?? session.updatedAt)}`,
+      });
+    } catch (error) {
+      if (!(error instanceof SessionImportError)) log.error('Erro ao importar a sessão:', error);
+      toast({
+        title: "Não foi possível importar",
+        description: error instanceof SessionImportError ? error.message : "Erro ao guardar a entrevista importada.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const filteredSessions = useMemo(() => sessions.filter(session =>
+    (areaFilter === ALL || session.config.area === areaFilter) &&
+    (experienceFilter === ALL || session.config.experience === experienceFilter) &&
+    (modeFilter === ALL || session.config.mode === modeFilter) &&
+    matchesSearch(session, search)
+  ), [sessions, areaFilter, experienceFilter, modeFilter, search]);
+
+  const areas = uniqueValues(sessions.map(session => session.config.area));
+  const experienceLevels = uniqueValues(sessions.map(session => session.config.experience));
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" asChild>
+            <Link to={sessionId ? '/history' : '/'}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {sessionId ? 'Voltar ao Histórico' : 'Voltar ao Início'}
+            </Link>
+          </Button>
+          {selectedSession && sessionId && (
+            <Button variant="outline" asChild>
+              <Link to={`/results/${sessionId}`}>Ver resultados</Link>
+            </Button>
+          )}
+          {!sessionId && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  // Limpa a seleção para o mesmo ficheiro poder ser escolhido outra vez
+                  e.target.value = '';
+                  if (file) importSession(file);
+                }}
+              />
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Importar JSON
+              </Button>
+            </>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : sessionId ? (
+          selectedSession ? (
+            <SessionReplay session={selectedSession} />
+          ) : (
+            <Card>
+              <CardContent className="pt-6 text-center text-muted-foreground">
+                Esta entrevista não existe ou ainda não foi concluída.
+              </CardContent>
+            </Card>
+          )
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HistoryIcon className="h-5 w-5 text-primary" />
+                Histórico de Entrevistas
+              </CardTitle>
+              <CardDescription>
+                Entrevistas concluídas neste navegador. Selecione uma para rever as perguntas, respostas e feedback.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-3 md:grid-cols-4">
+                <div className="relative md:col-span-4">
+                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Pesquisar por área, candidato, pergunta ou resposta..."
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={areaFilter} onValueChange={setAreaFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Área" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todas as áreas</SelectItem>
+                    {areas.map(area => (
+                      <SelectItem key={area} value={area}>{area}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={experienceFilter} onValueChange={setExperienceFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Experiência" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os níveis</SelectItem>
+                    {experienceLevels.map(level => (
+                      <SelectItem key={level} value={level}>{level}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={modeFilter} onValueChange={setModeFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Modo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>Todos os modos</SelectItem>
+                    {(Object.keys(MODE_LABELS) as (keyof typeof MODE_LABELS)[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSearch('');
+                    setAreaFilter(ALL);
+                    setExperienceFilter(ALL);
+                    setModeFilter(ALL);
+                  }}
+                >
+                  Limpar filtros
+                </Button>
+              </div>
+
+              {sessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Ainda não concluiu nenhuma entrevista.
+                </p>
+              ) : filteredSessions.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  Nenhuma entrevista corresponde aos filtros.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Área</TableHead>
+                      <TableHead>Experiência</TableHead>
+                      <TableHead>Modo</TableHead>
+                      <TableHead className="text-right">Média</TableHead>
+                      <TableHead className="text-right">Perguntas</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredSessions.map(session => (
+                      <TableRow
+                        key={session.id}
+                        className="cursor-pointer"
+                        onClick={() => navigate(`/history/${session.id}`)}
+                      >
+                        <TableCell className="whitespace-nowrap">{formatDate(session.completedAt ?? session.updatedAt)}</TableCell>
+                        <TableCell>{session.config.area}</TableCell>
+                        <TableCell>{session.config.experience}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{MODE_LABELS[session.config.mode]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{getAverageScore(session.answers)}/100</TableCell>
+                        <TableCell className="text-right">{session.answers.length}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,33 +1,67 @@
-import { useState } from "react";
-import InterviewSetup, { InterviewConfig } from "@/components/InterviewSetup";
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import InterviewSetup from "@/components/InterviewSetup";
 import InterviewSession from "@/components/InterviewSession";
+import type { StoredSession } from "@/services/sessionStore";
+import type { InterviewConfig } from "@/services/types";
 
-type AppState = 'setup' | 'interview' | 'results';
+type AppState = 'setup' | 'interview';
+
+// Outras páginas podem abrir uma sessão diretamente (ex.: repetir as perguntas fracas nos resultados)
+interface IndexLocationState {
+  resumeSession?: StoredSession;
+}
 
 const Index = () => {
-  const [appState, setAppState] = useState<AppState>('setup');
-  const [interviewConfig, setInterviewConfig] = useState<InterviewConfig | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  const requestedSession = (location.state as IndexLocationState | null)?.resumeSession ?? null;
+  const [appState, setAppState] = useState<AppState>(requestedSession ? 'interview' : 'setup');
+  const [interviewConfig, setInterviewConfig] = useState<InterviewConfig | null>(requestedSession?.config ?? null);
+  const [resumeSession, setResumeSession] = useState<StoredSession | null>(requestedSession);
+
+  // Remove o pedido do histórico do navegador, para um refresh não reabrir a sessão a partir dele
+  useEffect(() => {
+    if (requestedSession) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [requestedSession, navigate, location.pathname]);
 
   const handleStartInterview = (config: InterviewConfig) => {
     setInterviewConfig(config);
+    setResumeSession(null);
+    setAppState('interview');
+  };
+
+  const handleResumeInterview = (session: StoredSession) => {
+    setInterviewConfig(session.config);
+    setResumeSession(session);
     setAppState('interview');
   };
 
+  // A sessão segue no estado da navegação para os resultados abrirem mesmo antes de o IndexedDB terminar
+  const handleInterviewComplete = (session: StoredSession) => {
+    navigate(`/results/${session.id}`, { state: { session } });
+  };
+
   const handleBackToSetup = () => {
     setAppState('setup');
     setInterviewConfig(null);
+    setResumeSession(null);
   };
 
   return (
     <div className="min-h-screen">
       {appState === 'setup' && (
-        <InterviewSetup onStartInterview={handleStartInterview} />
+        <InterviewSetup onStartInterview={handleStartInterview} onResumeInterview={handleResumeInterview} />
       )}
-      
+
       {appState === 'interview' && interviewConfig && (
-        <InterviewSession 
-          config={interviewConfig} 
+        <InterviewSession
+          config={interviewConfig}
+          resumeSession={resumeSession ?? undefined}
           onBackToSetup={handleBackToSetup}
+          onComplete={handleInterviewComplete}
         />
       )}
     </div>
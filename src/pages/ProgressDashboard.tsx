@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, CalendarDays, LineChart, Target, TrendingDown, TrendingUp } from "lucide-react";
+import ScoreTrendChart from "@/components/ScoreTrendChart";
+import AverageBarChart from "@/components/AverageBarChart";
+import PracticeFrequencyChart from "@/components/PracticeFrequencyChart";
+import { listSessions, type StoredSession } from "@/services/sessionStore";
+import {
+  getCategoryAverages,
+  getCompetencyAverages,
+  getCriterionAverages,
+  getPracticeFrequency,
+  getRecentProgress,
+  getScoreTrend,
+  getScoredAnswers,
+} from "@/services/sessionStats";
+import { CATEGORY_LABELS } from "@/services/questions";
+import { getCriterionLabel } from "@/services/rubric";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger('progress');
+
+const ALL = 'all';
+const WEAKEST_COMPETENCIES = 5;
+const PRACTICE_WEEKS = 8;
+
+// Painel de progresso: evolução das pontuações e pontos fracos ao longo das entrevistas concluídas
+const ProgressDashboard = () => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [areaFilter, setAreaFilter] = useState(ALL);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listSessions('completed')
+      .then(completed => {
+        if (!cancelled) setSessions(completed);
+      })
+      .catch(error => log.error('Erro ao carregar as sessões:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const areas = [...new Set(sessions.map(session => session.config.area))].sort((a, b) => a.localeCompare(b, 'pt'));
+  const filtered = useMemo(
+    () => areaFilter === ALL ? sessions : sessions.filter(session => session.config.area === areaFilter),
+    [sessions, areaFilter]
+  );
+
+  const trend = getScoreTrend(filtered);
+  const recentProgress = getRecentProgress(trend);
+  const scoredAnswers = getScoredAnswers(filtered);
+  const overallAverage = scoredAnswers.length > 0
+    ? Math.round(scoredAnswers.reduce((sum, item) => sum + item.score, 0) / scoredAnswers.length)
+    : 0;
+  const categoryAverages = getCategoryAverages(filtered);
+  const criterionAverages = getCriterionAverages(filtered);
+  const weakestCompetencies = getCompetencyAverages(filtered).slice(0, WEAKEST_COMPETENCIES);
+  const practiceWeeks = getPracticeFrequency(filtered, PRACTICE_WEEKS);
+  const sessionsThisPeriod = practiceWeeks.reduce((total, week) => total + week.sessions, 0);
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Button variant="ghost" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Voltar ao Início
+            </Link>
+          </Button>
+          {areas.length > 1 && (
+            <Select value={areaFilter} onValueChange={setAreaFilter}>
+              <SelectTrigger className="w-[240px]">
+                <SelectValue placeholder="Área" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Todas as áreas</SelectItem>
+                {areas.map(area => (
+                  <SelectItem key={area} value={area}>{area}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <LineChart className="h-6 w-6 text-primary" />
+            O Seu Progresso
+          </h1>
+          <p className="text-muted-foreground">Evolução calculada a partir das entrevistas concluídas neste navegador.</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : trend.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground space-y-4">
+              <p>Conclua pelo menos uma entrevista para ver o seu progresso.</p>
+              <Button asChild>
+                <Link to="/">Começar uma simulação</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Entrevistas concluídas</CardDescription>
+                  <CardTitle className="text-3xl">{trend.length}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Respostas avaliadas</CardDescription>
+                  <CardTitle className="text-3xl">{scoredAnswers.length}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Média geral</CardDescription>
+                  <CardTitle className="text-3xl">{overallAverage}/100</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Evolução recente</CardDescription>
+                  <CardTitle className={`text-3xl flex items-center gap-2 ${recentProgress > 0 ? 'text-success' : recentProgress < 0 ? 'text-destructive' : ''}`}>
+                    {recentProgress === null ? '—' : (
+                      <>
+                        {recentProgress >= 0 ? <TrendingUp className="h-6 w-6" /> : <TrendingDown className="h-6 w-6" />}
+                        {recentProgress > 0 ? '+' : ''}{recentProgress}
+                      </>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-muted-foreground">
+                  {recentProgress === null
+                    ? 'Precisa de duas entrevistas para comparar.'
+                    : 'Pontos nas últimas entrevistas face às anteriores.'}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Pontuação ao longo do tempo</CardTitle>
+                <CardDescription>Média de cada entrevista, da mais antiga para a mais recente</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScoreTrendChart points={trend} />
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Média por categoria</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AverageBarChart
+                    items={categoryAverages.map(({ category, average, count }) => ({ label: CATEGORY_LABELS[category], average, count }))}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Média por critério</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {criterionAverages.length > 0 ? (
+                    <AverageBarChart
+                      items={criterionAverages.map(({ criterion, average, count }) => ({ label: getCriterionLabel(criterion), average, count }))}
+                    />
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Sem avaliações por critério.</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Target className="h-5 w-5 text-accent" />
+                    Competências a trabalhar
+                  </CardTitle>
+                  <CardDescription>As {WEAKEST_COMPETENCIES} competências com média mais baixa</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {weakestCompetencies.map(({ competency, average, count }) => (
+                    <div key={competency} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">{competency}</span>
+                        <span className="text-muted-foreground">{average}/100 · {count} resposta(s)</span>
+                      </div>
+                      <Progress value={average} className="h-2" />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <CalendarDays className="h-5 w-5 text-primary" />
+                    Frequência de prática
+                  </CardTitle>
+                  <CardDescription>
+                    {sessionsThisPeriod} entrevista(s) nas últimas {PRACTICE_WEEKS} semanas
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PracticeFrequencyChart weeks={practiceWeeks} />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import InterviewResults from "@/components/InterviewResults";
+import { useToast } from "@/hooks/use-toast";
+import { createSessionId, getSession, saveSession, type StoredSession } from "@/services/sessionStore";
+import type { InterviewReport } from "@/services/groqService";
+import { exportSession, type ExportFormat } from "@/services/sessionExport";
+import type { Question } from "@/services/types";
+import { createLogger } from "@/services/logger";
+
+const log = createLogger('results');
+
+// A entrevista acabada de concluir chega no estado da navegação; nas outras visitas lê-se do IndexedDB
+interface ResultsLocationState {
+  session?: StoredSession;
+}
+
+// Nova sessão só com as perguntas a repetir, na mesma configuração e sem respostas
+function createRetrySession(source: StoredSession, questions: Question[]): StoredSession {
+  const now = Date.now();
+  return {
+    id: createSessionId(),
+    status: 'in_progress',
+    // Repetir é rever as mesmas perguntas, que o modo adaptativo trocaria por outras
+    config: { ...source.config, questionCount: questions.length, adaptive: false },
+    questions: questions.map((question, index) => ({ ...question, id: index + 1 })),
+    answers: [],
+    requiredSkills: source.requiredSkills,
+    currentQuestionIndex: 0,
+    startedAt: now,
+    updatedAt: now,
+  };
+}
+
+const Results = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const passedSession = (location.state as ResultsLocationState | null)?.session;
+  const [session, setSession] = useState<StoredSession | null>(passedSession?.id === sessionId ? passedSession : null);
+  const [isLoading, setIsLoading] = useState(!session);
+  // Só a entrevista acabada de concluir chega no estado da navegação
+  const [justCompleted] = useState(Boolean(passedSession));
+
+  // Remove a sessão do histórico do navegador: num refresh lê-se do IndexedDB, já com o relatório
+  useEffect(() => {
+    if (passedSession) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [passedSession, navigate, location.pathname]);
+
+  useEffect(() => {
+    if (session?.id === sessionId) return;
+    let cancelled = false;
+    setIsLoading(true);
+
+    getSession(sessionId)
+      .then(stored => {
+        if (!cancelled) setSession(stored?.status === 'completed' ? stored : null);
+      })
+      .catch(error => log.error('Erro ao carregar a sessão:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, session]);
+
+  // O relatório local (fallback) não é guardado, para a próxima visita voltar a tentar a IA
+  const saveReport = useCallback((report: InterviewReport) => {
+    if (report.source === 'fallback') return;
+    const updated = { ...session, report };
+    setSession(updated);
+    saveSession(updated).catch(error => log.warn('Não foi possível guardar o relatório.', error));
+  }, [session]);
+
+  const retryQuestions = (questions: Question[]) => {
+    navigate('/', { state: { resumeSession: createRetrySession(session, questions) } });
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    if (!exportSession(session, format)) {
+      toast({
+        title: "Não foi possível abrir a impressão",
+        description: "Permita janelas pop-up para este site e tente novamente.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-background p-4 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="pt-6 text-center space-y-4">
+            <p className="text-muted-foreground">Esta entrevista não existe ou ainda não foi concluída.</p>
+            <Button asChild>
+              <Link to="/history">Ver histórico</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <InterviewResults
+      result={session}
+      savedReport={session.report}
+      onReportGenerated={saveReport}
+      justCompleted={justCompleted}
+      onBackToSetup={() => navigate('/')}
+      onRetryQuestions={retryQuestions}
+      onExport={handleExport}
+    />
+  );
+};
+
+export default Results;
@@ -0,0 +1,51 @@
+import { QUESTION_DIFFICULTIES, type InterviewQuestion, type QuestionDifficulty } from './questions';
+
+// Modo adaptativo: a dificuldade da próxima pergunta acompanha as pontuações recentes
+
+// Média das últimas respostas a partir da qual subimos (ou abaixo da qual descemos) de nível
+const STRONG_SCORE = 75;
+const WEAK_SCORE = 55;
+const RECENT_ANSWERS = 2;
+
+function shiftDifficulty(difficulty: QuestionDifficulty, steps: number): QuestionDifficulty {
+  const index = QUESTION_DIFFICULTIES.indexOf(difficulty) + steps;
+  return QUESTION_DIFFICULTIES[Math.min(Math.max(index, 0), QUESTION_DIFFICULTIES.length - 1)];
+}
+
+// Mais difícil depois de respostas fortes, de consolidação depois de respostas fracas
+function chooseNextDifficulty(current: QuestionDifficulty, scores: number[]): QuestionDifficulty {
+  const recent = scores.slice(-RECENT_ANSWERS);
+  if (recent.length === 0) return current;
+
+  const average = recent.reduce((sum, score) => sum + score, 0) / recent.length;
+  if (average >= STRONG_SCORE) return shiftDifficulty(current, 1);
+  if (average < WEAK_SCORE) return shiftDifficulty(current, -1);
+  return current;
+}
+
+// Índice (em candidates) da pergunta com a dificuldade mais próxima do alvo; em empate fica a primeira
+function pickClosestDifficulty(candidates: InterviewQuestion[], target: QuestionDifficulty): number {
+  const targetIndex = QUESTION_DIFFICULTIES.indexOf(target);
+  let bestIndex = -1;
+  let bestDistance = Infinity;
+
+  candidates.forEach((question, index) => {
+    const distance = Math.abs(QUESTION_DIFFICULTIES.indexOf(question.difficulty) - targetIndex);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+}
+
+// Descrição usada no prompt para a IA perceber porque mudou a dificuldade
+function describeAdjustment(previous: QuestionDifficulty, next: QuestionDifficulty): string {
+  const delta = QUESTION_DIFFICULTIES.indexOf(next) - QUESTION_DIFFICULTIES.indexOf(previous);
+  if (delta > 0) return 'o candidato respondeu bem: faça uma pergunta mais exigente';
+  if (delta < 0) return 'o candidato teve dificuldades: faça uma pergunta de consolidação, mais acessível';
+  return 'mantenha o nível de exigência';
+}
+
+export { chooseNextDifficulty, pickClosestDifficulty, describeAdjustment };
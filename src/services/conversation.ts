@@ -0,0 +1,100 @@
+import type { LLMMessage } from './llmProviders';
+import type { InterviewQuestion } from './questions';
+import { wrapCandidateContent } from './promptSafety';
+
+// Contexto multi-turno da entrevista usado para gerar follow-ups
+
+interface ConversationTurn {
+  question: InterviewQuestion;
+  answer?: string;
+  score?: number;
+  strengths?: string[];
+  improvements?: string[];
+}
+
+interface TranscriptAnswer {
+  questionId: number;
+  text: string;
+  feedback?: {
+    score: number;
+    strengths: string[];
+    improvements: string[];
+  };
+}
+
+// Junta perguntas e respostas da sessão (pela ordem das perguntas) num único transcript
+function buildTranscript(questions: (InterviewQuestion & { id: number })[], answers: TranscriptAnswer[]): ConversationTurn[] {
+  return questions.map(question => {
+    const answer = answers.find(a => a.questionId === question.id);
+    return {
+      question,
+      answer: answer?.text,
+      score: answer?.feedback?.score,
+      strengths: answer?.feedback?.strengths,
+      improvements: answer?.feedback?.improvements,
+    };
+  });
+}
+
+// Quantos turnos recentes vão sempre por extenso; os anteriores são resumidos quando a conversa cresce
+const RECENT_TURNS_VERBATIM = 3;
+const MAX_VERBATIM_CHARS = 6000;
+
+function turnLength(turn: ConversationTurn): number {
+  return turn.question.text.length + (turn.answer?.length ?? 0);
+}
+
+// Divide a transcrição em turnos antigos (a resumir) e recentes (enviados por extenso)
+function splitForSummary(turns: ConversationTurn[]): { older: ConversationTurn[]; recent: ConversationTurn[] } {
+  const totalLength = turns.reduce((sum, turn) => sum + turnLength(turn), 0);
+
+  if (turns.length <= RECENT_TURNS_VERBATIM || totalLength <= MAX_VERBATIM_CHARS) {
+    return { older: [], recent: turns };
+  }
+
+  return {
+    older: turns.slice(0, -RECENT_TURNS_VERBATIM),
+    recent: turns.slice(-RECENT_TURNS_VERBATIM),
+  };
+}
+
+function formatTranscript(turns: ConversationTurn[]): string {
+  return turns
+    .map((turn, index) => `${index + 1}. PERGUNTA (${turn.question.competency}): ${turn.question.text}
+RESPOSTA: ${turn.answer ? wrapCandidateContent(turn.answer) : '(sem resposta)'}${turn.score !== undefined ? `
+PONTUAÇÃO: ${turn.score}/100` : ''}`)
+    .join('\n\n');
+}
+
+// Resumo local (sem IA): pergunta e início de cada resposta
+function summarizeLocally(turns: ConversationTurn[]): string {
+  return turns
+    .map(turn => {
+      const answer = turn.answer ?? '(sem resposta)';
+      const excerpt = answer.length > 160 ? `${answer.substring(0, 160)}...` : answer;
+      return `- ${turn.question.text} → ${excerpt}`;
+    })
+    .join('\n');
+}
+
+// Converte os turnos em mensagens: o entrevistador (assistant) pergunta e o candidato (user) responde
+function toConversationMessages(turns: ConversationTurn[], summary?: string): LLMMessage[] {
+  const messages: LLMMessage[] = [];
+
+  if (summary) {
+    messages.push({ role: 'user', content: `[Resumo da parte anterior da entrevista]\n${wrapCandidateContent(summary)}` });
+  }
+
+  for (const turn of turns) {
+    messages.push({ role: 'assistant', content: turn.question.text });
+    // As respostas vão delimitadas, como nos outros prompts, para não poderem dar ordens ao entrevistador
+    if (turn.answer) {
+      messages.push({ role: 'user', content: wrapCandidateContent(turn.answer) });
+    }
+  }
+
+  return messages;
+}
+
+export { buildTranscript, splitForSummary, formatTranscript, summarizeLocally, toConversationMessages };
+export type { ConversationTurn, TranscriptAnswer };
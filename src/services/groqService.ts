@@ -1,73 +1,380 @@
-interface GroqMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
-
-interface GroqResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
-}
+import { extractPartialJsonString } from './streaming';
+import { extractSkillsLocally, restrictToRequiredSkills } from './skills';
+import { evaluateOffline } from './offlineEvaluator';
+import { getBankQuestions, getSeedExamples } from './questionBank';
+import { getAskedQuestions } from './questionHistory';
+import { rankByNovelty } from './similarity';
+import { hintSchema, improvedAnswerSchema, interviewFeedbackSchema, interviewReportSchema, modelAnswerSchema, parseStructured, questionListSchema, skillListSchema, StructuredOutputError, type ImprovedAnswerPayload, type JsonShape, type ModelAnswerPayload, type Schema } from './schemas';
+import { buildLocalReport, HIRING_VERDICTS, type InterviewReportPayload } from './report';
+import { formatTranscript, splitForSummary, summarizeLocally, toConversationMessages, type ConversationTurn } from './conversation';
+import { CATEGORY_LABELS, DIFFICULTY_LABELS, QUESTION_CATEGORIES, type InterviewQuestion, type QuestionDifficulty } from './questions';
+import { describeAdjustment } from './adaptive';
+import { getLocalHint, HINT_INSTRUCTIONS, HINT_LABELS, type HintLevel } from './hints';
+import { computeWeightedScore, RUBRIC_CRITERIA, type CriterionScore } from './rubric';
+import { isAbortError, LLMError, toLLMError } from './llmErrors';
+import { getRedactionSettings, RedactionVault } from './redaction';
+import { CANDIDATE_CONTENT_RULE, checkEvaluationIntegrity, wrapCandidateContent, type IntegrityCheck } from './promptSafety';
+import { createProvider, getLLMSettings, type LLMMessage, type LLMProvider, type LLMSettings, type LLMTask } from './llmProviders';
+import { startLLMCall, updateLLMCall, type LLMCallParseResult } from './llmCallLog';
+import { createLogger } from './logger';
+
+const log = createLogger('groq');
+
+// Caminho que produziu o resultado: resposta válida da IA, resposta reparada ou fallback local
+type ResultSource = 'ai' | 'repaired' | 'fallback';
 
 interface InterviewFeedback {
+  // Pontuação final: média ponderada dos critérios (ou heurística, no fallback)
   score: number;
+  // Avaliação por critério da rubrica; vazio apenas para respostas em branco
+  criteria: CriterionScore[];
   strengths: string[];
   improvements: string[];
   overall: string;
+  // Competências exigidas pela vaga que a resposta demonstrou (vazio sem descrição da vaga)
+  demonstratedSkills?: string[];
+  // Verificação anti-manipulação das avaliações feitas pela IA
+  integrity?: IntegrityCheck;
+  source: ResultSource;
+}
+
+interface GeneratedQuestions {
+  questions: InterviewQuestion[];
+  source: ResultSource;
+}
+
+interface InterviewReport extends InterviewReportPayload {
+  source: ResultSource;
+}
+
+interface ModelAnswer extends ModelAnswerPayload {
+  source: ResultSource;
+}
+
+interface ImprovedAnswer extends ImprovedAnswerPayload {
+  source: ResultSource;
+}
+
+interface InterviewHint {
+  level: HintLevel;
+  text: string;
+  source: ResultSource;
+}
+
+interface StructuredResult<T> {
+  data: T;
+  source: ResultSource;
+}
+
+interface RequestOptions {
+  // Recebe o texto parcial (comentário geral ou pergunta) enquanto a resposta chega
+  onProgress?: (partialText: string) => void;
+  // Cancela o pedido (e os retries pendentes) quando abortado
+  signal?: AbortSignal;
+}
+
+interface EvaluationOptions extends RequestOptions {
+  jobDescription?: string;
+  requiredSkills?: string[];
+}
+
+interface QuestionOptions extends RequestOptions {
+  jobDescription?: string;
+}
+
+interface FollowUpOptions extends RequestOptions {
+  // Dificuldade pretendida para a próxima pergunta (modo adaptativo)
+  difficulty?: QuestionDifficulty;
+}
+
+interface ReportOptions extends RequestOptions {
+  jobDescription?: string;
+  requiredSkills?: string[];
 }
 
+// Número máximo de pedidos de reparação quando a resposta não passa na validação
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Política de retry para erros transitórios (rate limit, servidor, rede, timeout)
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 20000;
+const REQUEST_TIMEOUT_MS = 30000;
+// Perguntas extra pedidas quando há histórico, para poder descartar as parecidas com as já feitas
+const NOVELTY_MARGIN = 3;
+const MAX_PREVIOUS_QUESTIONS_IN_PROMPT = 15;
+const HIRING_VERDICTS_PROMPT = HIRING_VERDICTS.map(verdict => `"${verdict}"`).join(', ');
+// Tarefas que respondem em texto livre; todas as outras respondem em JSON
+const PLAIN_TEXT_TASKS: LLMTask[] = ['followup', 'summary'];
+
+// Espera entre retries, interrompida imediatamente se o pedido for cancelado
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new LLMError('aborted', 'Pedido cancelado'));
+    return;
+  }
+
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new LLMError('aborted', 'Pedido cancelado'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const elapsedSince = (start: number) => Math.round(performance.now() - start);
+
 class GroqService {
-  private apiKey: string;
-  private baseUrl: string;
+  private provider: LLMProvider;
+  private summaryCache = new Map<string, string>();
+  // Dados pessoais substituídos por placeholders antes de sair do navegador
+  private redaction = new RedactionVault();
+  private sessionNames: string[] = [];
+  // Último pedido registado por tarefa, para anotar o resultado da validação e o uso de fallback
+  private lastCallIds = new Map<LLMTask, number>();
 
   constructor() {
-    this.apiKey = import.meta.env.VITE_GROQ_API_KEY;
-    this.baseUrl = import.meta.env.VITE_API_BASE_URL || 'https://api.groq.com/openai/v1';
-    
-    if (!this.apiKey) {
-      console.warn('VITE_GROQ_API_KEY não encontrada. Usando modo simulação.');
+    this.configure();
+  }
+
+  // Permite trocar o backend em tempo de execução (ex.: após alterar as configurações)
+  configure(settings: LLMSettings = getLLMSettings()) {
+    this.provider = createProvider(settings);
+
+    if (!this.provider.isConfigured()) {
+      log.warn(`Provider ${this.provider.name} não configurado (VITE_GROQ_API_KEY ausente?). Usando modo simulação.`);
     }
   }
 
-  private async makeRequest(messages: GroqMessage[]): Promise<string> {
-    if (!this.apiKey) {
-      throw new Error('API Key do Groq não configurada');
+  isConfigured(): boolean {
+    return this.provider.isConfigured();
+  }
+
+  // Nomes da sessão atual (ex.: o do candidato) a ocultar além da lista configurada
+  setSessionNames(names: string[]) {
+    this.sessionNames = names;
+  }
+
+  private redactMessages(messages: LLMMessage[]): LLMMessage[] {
+    const settings = getRedactionSettings();
+    return messages.map(message => ({
+      ...message,
+      content: this.redaction.redact(message.content, settings, this.sessionNames)
+    }));
+  }
+
+  private async makeRequest(messages: LLMMessage[], task: LLMTask, signal?: AbortSignal): Promise<string> {
+    this.lastCallIds.delete(task);
+    this.ensureConfigured();
+    const payload = this.redactMessages(messages);
+    const isJson = !PLAIN_TEXT_TASKS.includes(task);
+
+    for (let attempt = 0; ; attempt++) {
+      const timeout = this.startTimeout(signal);
+      const callId = this.recordCall(task, payload, false, attempt);
+      const startedAt = performance.now();
+
+      try {
+        const content = await this.provider.complete({ task, messages: payload, signal: timeout.signal });
+        updateLLMCall(callId, { status: 'success', response: content, latencyMs: elapsedSince(startedAt) });
+        log.debug(`Resposta recebida do provider ${this.provider.name} (${task}):`, content);
+        return this.redaction.restore(content, isJson);
+      } catch (error) {
+        const llmError = toLLMError(error, timeout.timedOut(), signal);
+        updateLLMCall(callId, { status: 'error', error: llmError.message, latencyMs: elapsedSince(startedAt) });
+        if (llmError.kind === 'aborted') throw llmError;
+        log.error(`Erro ao chamar o provider ${this.provider.name} (tentativa ${attempt + 1}):`, llmError);
+
+        if (!this.shouldRetry(llmError, attempt)) throw llmError;
+        await sleep(this.getRetryDelay(llmError, attempt), signal);
+      } finally {
+        timeout.clear();
+      }
     }
+  }
 
-    try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'llama-3.3-70b-versatile', // Modelo mais recente baseado na documentação
-          messages,
-          temperature: 0.7,
-          max_tokens: 1000,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.text();
-        console.error('Resposta da API:', errorData);
-        throw new Error(`Erro na API: ${response.status} ${response.statusText} - ${errorData}`);
+  // Versão em streaming do makeRequest: devolve cada pedaço de texto assim que chega.
+  // Só repete o pedido se a falha acontecer antes do primeiro pedaço.
+  async *stream(messages: LLMMessage[], task: LLMTask, signal?: AbortSignal): AsyncGenerator<string> {
+    this.lastCallIds.delete(task);
+    this.ensureConfigured();
+    const payload = this.redactMessages(messages);
+    const isJson = !PLAIN_TEXT_TASKS.includes(task);
+
+    for (let attempt = 0; ; attempt++) {
+      const timeout = this.startTimeout(signal);
+      const callId = this.recordCall(task, payload, true, attempt);
+      const startedAt = performance.now();
+      let receivedChunks = false;
+      let raw = '';
+      // Placeholder que pode estar partido entre dois pedaços
+      let pending = '';
+
+      try {
+        for await (const chunk of this.provider.stream({ task, messages: payload, signal: timeout.signal })) {
+          receivedChunks = true;
+          raw += chunk;
+          timeout.reset();
+          const [ready, rest] = this.redaction.splitRestorable(pending + chunk);
+          pending = rest;
+          if (ready) yield this.redaction.restore(ready, isJson);
+        }
+        if (pending) yield this.redaction.restore(pending, isJson);
+        updateLLMCall(callId, { status: 'success', response: raw, latencyMs: elapsedSince(startedAt) });
+        return;
+      } catch (error) {
+        const llmError = toLLMError(error, timeout.timedOut(), signal);
+        updateLLMCall(callId, { status: 'error', response: raw || undefined, error: llmError.message, latencyMs: elapsedSince(startedAt) });
+        if (llmError.kind === 'aborted') throw llmError;
+        log.error(`Erro no streaming do provider ${this.provider.name} (tentativa ${attempt + 1}):`, llmError);
+
+        if (receivedChunks || !this.shouldRetry(llmError, attempt)) throw llmError;
+        await sleep(this.getRetryDelay(llmError, attempt), signal);
+      } finally {
+        timeout.clear();
+      }
+    }
+  }
+
+  // Regista o pedido no painel de desenvolvimento (com as mensagens já sem dados pessoais)
+  private recordCall(task: LLMTask, payload: LLMMessage[], streamed: boolean, attempt: number): number {
+    const callId = startLLMCall({ task, provider: this.provider.name, streamed, attempt: attempt + 1, messages: payload });
+    this.lastCallIds.set(task, callId);
+    return callId;
+  }
+
+  private annotateLastCall(task: LLMTask, parse: LLMCallParseResult) {
+    const callId = this.lastCallIds.get(task);
+    if (callId !== undefined) updateLLMCall(callId, { parse });
+  }
+
+  // Assinala que o resultado entregue à UI veio do fallback local, apesar do pedido feito
+  private markFallback(task: LLMTask) {
+    const callId = this.lastCallIds.get(task);
+    if (callId !== undefined) updateLLMCall(callId, { fallbackUsed: true });
+  }
+
+  private ensureConfigured() {
+    if (!this.provider.isConfigured()) {
+      throw new LLMError('config', `Provider ${this.provider.name} não configurado - verifique a API key`);
+    }
+  }
+
+  // AbortController que dispara após REQUEST_TIMEOUT_MS sem resposta (reset() reinicia a contagem)
+  // ou quando o signal externo é abortado
+  private startTimeout(signal?: AbortSignal) {
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const start = () => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, REQUEST_TIMEOUT_MS);
+    };
+    start();
+
+    return {
+      signal: controller.signal,
+      timedOut: () => timedOut,
+      reset: () => {
+        clearTimeout(timer);
+        start();
+      },
+      clear: () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      },
+    };
+  }
+
+  // Backoff exponencial com jitter; em 429 respeita o Retry-After enviado pelo servidor
+  // Um Retry-After acima de MAX_RETRY_DELAY_MS falha já: repetir antes do prazo só gastaria as tentativas
+  private shouldRetry(error: LLMError, attempt: number): boolean {
+    return error.retryable && attempt < MAX_RETRIES && (error.retryAfterMs ?? 0) <= MAX_RETRY_DELAY_MS;
+  }
+
+  private getRetryDelay(error: LLMError, attempt: number): number {
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs;
+    }
+
+    const exponential = BASE_RETRY_DELAY_MS * 2 ** attempt;
+    const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+    return Math.min(exponential + jitter, MAX_RETRY_DELAY_MS);
+  }
+
+  // Acumula o stream, notificando o texto acumulado a cada pedaço
+  private async collectStream(messages: LLMMessage[], task: LLMTask, onChunk: (content: string) => void, signal?: AbortSignal): Promise<string> {
+    let content = '';
+    for await (const chunk of this.stream(messages, task, signal)) {
+      content += chunk;
+      onChunk(content);
+    }
+    log.debug(`Resposta (stream) recebida do provider ${this.provider.name} (${task}):`, content);
+    return content;
+  }
+
+  /**
+   * Valida a resposta contra o schema. Se falhar, devolve o erro ao modelo e pede uma
+   * versão corrigida (até MAX_REPAIR_ATTEMPTS vezes) antes de desistir com StructuredOutputError.
+   */
+  private async requestStructured<T>(
+    messages: LLMMessage[],
+    task: LLMTask,
+    schema: Schema<T>,
+    shape: JsonShape,
+    signal?: AbortSignal,
+    initialResponse?: string
+  ): Promise<StructuredResult<T>> {
+    let response = initialResponse ?? await this.makeRequest(messages, task, signal);
+    let lastError: StructuredOutputError;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      try {
+        const data = parseStructured(response, schema, shape);
+        this.annotateLastCall(task, { valid: true });
+        return { data, source: attempt === 0 ? 'ai' : 'repaired' };
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) throw error;
+        lastError = error;
+        this.annotateLastCall(task, { valid: false, error: error.message });
+        log.warn(`Resposta inválida (tentativa ${attempt + 1}):`, error.message);
       }
 
-      const data: GroqResponse = await response.json();
-      console.log('Resposta da API recebida:', data);
-      return data.choices[0]?.message?.content || '';
-    } catch (error) {
-      console.error('Erro ao chamar a API do Groq:', error);
-      throw error;
+      if (attempt === MAX_REPAIR_ATTEMPTS) break;
+
+      const repairMessages: LLMMessage[] = [
+        ...messages,
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `A sua resposta anterior não passou na validação:
+${lastError.message}
+
+Corrija os problemas e retorne APENAS o JSON válido no formato pedido, sem explicações adicionais.`
+        }
+      ];
+      response = await this.makeRequest(repairMessages, task, signal);
     }
+
+    throw lastError;
   }
 
-  async evaluateAnswer(question: string, answer: string, jobRole: string): Promise<InterviewFeedback> {
-    console.log('🔍 Iniciando avaliação:', { question, answer, jobRole });
+  async evaluateAnswer(question: InterviewQuestion, answer: string, jobRole: string, options: EvaluationOptions = {}): Promise<InterviewFeedback> {
+    const requiredSkills = options.requiredSkills ?? [];
+    log.debug('Iniciando avaliação:', { question, answer, jobRole });
     
     const systemPrompt = `Você é um especialista em recursos humanos e recrutamento técnico especializado em ${jobRole}.
 
@@ -83,120 +390,106 @@ CRITÉRIOS DE PONTUAÇÃO:
 - 30-39: Resposta fraca, não demonstra conhecimento necessário
 - 0-29: Resposta muito inadequada ou irrelevante
 
-Seja rigoroso mas justo na avaliação. Considere:
-- Clareza e estrutura da resposta
-- Conhecimento técnico demonstrado  
-- Exemplos práticos fornecidos
-- Relevância para a posição
-- Comunicação efetiva
-- Profundidade da resposta
+${CANDIDATE_CONTENT_RULE}
+
+Seja rigoroso mas justo na avaliação. Pontue SEPARADAMENTE cada critério, usando a escala acima:
+${RUBRIC_CRITERIA.map(criterion => `- "${criterion.key}": ${criterion.description}`).join('\n')}
 
 IMPORTANTE: Varie a pontuação de acordo com a qualidade real da resposta. Não use sempre a mesma pontuação.
 
 Retorne APENAS um JSON válido sem explicações adicionais:
 {
-  "score": [número inteiro de 0-100 baseado rigorosamente nos critérios],
+  "overall": "comentário objetivo sobre a resposta",
+  "criteria": [
+    { "criterion": "clarity", "score": [número inteiro de 0-100], "justification": "justificação curta da nota" }
+    // ... um item para cada um dos ${RUBRIC_CRITERIA.length} critérios
+  ],
   "strengths": ["força específica 1", "força específica 2"],
-  "improvements": ["melhoria específica 1", "melhoria específica 2"],  
-  "overall": "comentário objetivo sobre a resposta"
+  "improvements": ["melhoria específica 1", "melhoria específica 2"]${requiredSkills.length > 0 ? `,
+  "demonstratedSkills": ["competências da lista exigida que a resposta demonstrou de forma concreta"]` : ''}
 }`;
 
     const userPrompt = `POSIÇÃO: ${jobRole}
-
-PERGUNTA: "${question}"
-
-RESPOSTA DO CANDIDATO: "${answer}"
+${options.jobDescription ? `
+DESCRIÇÃO DA VAGA:
+${options.jobDescription}
+` : ''}${requiredSkills.length > 0 ? `
+COMPETÊNCIAS EXIGIDAS: ${requiredSkills.join('; ')}
+` : ''}
+PERGUNTA: "${question.text}"
+TIPO: ${CATEGORY_LABELS[question.category]} · COMPETÊNCIA AVALIADA: ${question.competency} · DIFICULDADE: ${DIFFICULTY_LABELS[question.difficulty]}${question.expectedKeyPoints.length > 0 ? `
+PONTOS-CHAVE ESPERADOS: ${question.expectedKeyPoints.join('; ')}` : ''}
+
+RESPOSTA DO CANDIDATO:
+${wrapCandidateContent(answer)}
 
 Avalie esta resposta seguindo os critérios estabelecidos e retorne o JSON com a pontuação apropriada.`;
 
     try {
-      const messages: GroqMessage[] = [
+      const messages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ];
 
-      console.log('📤 Enviando mensagens para Groq:', messages);
-      const response = await this.makeRequest(messages);
-      console.log('📥 Resposta bruta da API:', response);
+      const response = options.onProgress
+        ? await this.collectStream(messages, 'evaluate', (content) => {
+            const partialOverall = extractPartialJsonString(content, 'overall');
+            if (partialOverall) options.onProgress(partialOverall);
+          }, options.signal)
+        : await this.makeRequest(messages, 'evaluate', options.signal);
       
-      // Tentar parsear a resposta JSON
       try {
-        // Limpar a resposta removendo possível texto extra
-        let cleanResponse = response.trim();
-        
-        // Remover possíveis markdown code blocks
-        cleanResponse = cleanResponse.replace(/```json\s*/g, '').replace(/```\s*/g, '');
-        
-        // Encontrar o JSON
-        const jsonStart = cleanResponse.indexOf('{');
-        const jsonEnd = cleanResponse.lastIndexOf('}') + 1;
-        
-        if (jsonStart >= 0 && jsonEnd > jsonStart) {
-          const jsonString = cleanResponse.substring(jsonStart, jsonEnd);
-          console.log('🔧 JSON extraído:', jsonString);
-          
-          const feedback = JSON.parse(jsonString);
-          console.log('✅ Feedback parseado:', feedback);
-          
-          // Validar se o score é um número válido
-          const score = typeof feedback.score === 'number' && feedback.score >= 0 && feedback.score <= 100 
-            ? feedback.score 
-            : this.calculateFallbackScore(answer);
-          
-          return {
-            score,
-            strengths: Array.isArray(feedback.strengths) && feedback.strengths.length > 0 
-              ? feedback.strengths 
-              : ["Resposta fornecida pelo candidato"],
-            improvements: Array.isArray(feedback.improvements) && feedback.improvements.length > 0 
-              ? feedback.improvements 
-              : ["Continue desenvolvendo suas habilidades"],
-            overall: typeof feedback.overall === 'string' && feedback.overall.length > 10
-              ? feedback.overall 
-              : "Feedback gerado pela IA"
-          };
+        const { data, source } = await this.requestStructured(messages, 'evaluate', interviewFeedbackSchema, 'object', options.signal, response);
+        log.debug('Feedback validado:', data, source);
+        const score = computeWeightedScore(data.criteria);
+        const heuristicScore = computeWeightedScore(evaluateOffline(question, answer, jobRole).criteria);
+        const integrity = checkEvaluationIntegrity(answer, score, heuristicScore);
+        if (integrity.flagged) {
+          log.warn('Avaliação sinalizada:', integrity.warnings);
         }
+        return {
+          ...data,
+          score,
+          integrity,
+          demonstratedSkills: restrictToRequiredSkills(data.demonstratedSkills ?? [], requiredSkills),
+          source
+        };
       } catch (parseError) {
-        console.error('❌ Erro ao parsear resposta da IA:', parseError);
-        console.log('📄 Resposta que causou erro:', response);
+        if (!(parseError instanceof StructuredOutputError)) throw parseError;
+        log.error('Resposta da IA inválida mesmo após reparação:', parseError.message);
+        log.debug('Resposta que causou erro:', parseError.rawResponse);
       }
       
-      // Fallback inteligente se não conseguir parsear o JSON
-      const fallbackScore = this.calculateFallbackScore(answer);
-      return {
-        score: fallbackScore,
-        strengths: ["Resposta analisada pela IA"],
-        improvements: ["Continue desenvolvendo suas habilidades"],
-        overall: response.length > 200 ? response.substring(0, 200) + "..." : response
-      };
+      // A IA respondeu, mas sem JSON utilizável: avaliamos localmente
+      return this.getFallbackFeedback(question, answer, jobRole, requiredSkills);
       
     } catch (error) {
-      console.error('❌ Erro ao avaliar resposta:', error);
-      // Fallback inteligente para modo offline/erro
-      const fallbackScore = this.calculateFallbackScore(answer);
-      
-      return {
-        score: fallbackScore,
-        strengths: [
-          fallbackScore > 70 ? "Resposta bem estruturada" : "Resposta fornecida",
-          fallbackScore > 60 ? "Demonstra conhecimento na área" : "Tentou responder à pergunta"
-        ],
-        improvements: [
-          fallbackScore < 70 ? "Adicionar mais detalhes específicos" : "Poderia ser mais específico em alguns pontos",
-          fallbackScore < 60 ? "Incluir exemplos práticos da experiência" : "Expandir com exemplos adicionais"
-        ],
-        overall: fallbackScore > 70 
-          ? "Resposta adequada, mas avaliação limitada - verifique sua API key do Groq" 
-          : "Resposta pode ser melhorada - verifique sua API key do Groq para feedback completo"
-      };
+      log.error('Erro ao avaliar resposta:', error);
+      // Erros de transporte já chegam como LLMError; os restantes (bugs) sobem sem alteração
+      throw error;
     }
   }
 
-  async generateQuestions(jobRole: string, experienceLevel: string, count: number = 5): Promise<string[]> {
-    console.log('🎯 Gerando perguntas para:', { jobRole, experienceLevel, count });
+  // Avaliação local completa (por critério) usada quando a IA não está disponível
+  getFallbackFeedback(question: InterviewQuestion, answer: string, jobRole: string, requiredSkills: string[] = []): InterviewFeedback {
+    const feedback = evaluateOffline(question, answer, jobRole, requiredSkills);
+    this.markFallback('evaluate');
+
+    return {
+      ...feedback,
+      score: computeWeightedScore(feedback.criteria),
+      source: 'fallback'
+    };
+  }
+
+  async generateQuestions(jobRole: string, experienceLevel: string, count: number = 5, options: QuestionOptions = {}): Promise<GeneratedQuestions> {
+    log.debug('Gerando perguntas para:', { jobRole, experienceLevel, count });
+    const seedExamples = getSeedExamples(jobRole, experienceLevel);
+    const askedBefore = getAskedQuestions(jobRole, experienceLevel);
+    const requestedCount = askedBefore.length > 0 ? count + NOVELTY_MARGIN : count;
     
     const systemPrompt = `Você é um especialista em recrutamento técnico. 
-    Gere ${count} perguntas de entrevista relevantes e variadas para a posição de ${jobRole} 
+    Gere ${requestedCount} perguntas de entrevista relevantes e variadas para a posição de ${jobRole} 
     com nível de experiência ${experienceLevel}.
     
     As perguntas devem ser:
@@ -205,142 +498,398 @@ Avalie esta resposta seguindo os critérios estabelecidos e retorne o JSON com a
     - Variadas (técnicas, comportamentais, situacionais)
     - Em português brasileiro
     - Uma pergunta de apresentação inicial
-    
-    Retorne apenas um array JSON de strings com as perguntas, sem explicações adicionais.
+    ${seedExamples.length > 0 ? `- Com um nível de exigência semelhante a estes exemplos (não os copie):
+${seedExamples.map(example => `      • ${example.text}`).join('\n')}
+    ` : ''}${askedBefore.length > 0 ? `- Diferentes destas, já feitas ao candidato em sessões anteriores:
+${askedBefore.slice(-MAX_PREVIOUS_QUESTIONS_IN_PROMPT).map(text => `      • ${text}`).join('\n')}
+    ` : ''}${options.jobDescription ? `- Direcionadas às responsabilidades e requisitos da descrição da vaga fornecida
+    ` : ''}
+    Retorne apenas um array JSON de objetos, sem explicações adicionais. Cada objeto tem:
+    - "text": a pergunta
+    - "category": um de ${QUESTION_CATEGORIES.filter(category => category !== 'followup').map(category => `"${category}"`).join(', ')}
+    - "competency": a competência avaliada (curta, em português)
+    - "difficulty": "easy", "medium" ou "hard"
+    - "expectedKeyPoints": 2 a 4 pontos que uma boa resposta deveria abordar
     
     Exemplo de formato de resposta:
     [
-      "Pergunta 1 aqui",
-      "Pergunta 2 aqui"
+      {
+        "text": "Pergunta 1 aqui",
+        "category": "intro",
+        "competency": "Comunicação",
+        "difficulty": "easy",
+        "expectedKeyPoints": ["ponto 1", "ponto 2"]
+      }
     ]`;
 
-    const userPrompt = `Gere ${count} perguntas de entrevista para ${jobRole} (nível ${experienceLevel}).`;
+    const userPrompt = `Gere ${requestedCount} perguntas de entrevista para ${jobRole} (nível ${experienceLevel}).${options.jobDescription ? `
+
+DESCRIÇÃO DA VAGA:
+${options.jobDescription}` : ''}`;
 
     try {
-      const messages: GroqMessage[] = [
+      const messages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ];
 
-      const response = await this.makeRequest(messages);
-      console.log('📥 Perguntas recebidas:', response);
-      
-      try {
-        // Limpar a resposta removendo possível texto extra
-        const cleanResponse = response.trim();
-        const jsonStart = cleanResponse.indexOf('[');
-        const jsonEnd = cleanResponse.lastIndexOf(']') + 1;
-        
-        if (jsonStart >= 0 && jsonEnd > jsonStart) {
-          const jsonString = cleanResponse.substring(jsonStart, jsonEnd);
-          const questions = JSON.parse(jsonString);
-          
-          if (Array.isArray(questions) && questions.length > 0) {
-            console.log('✅ Perguntas geradas:', questions);
-            return questions;
-          }
-        }
-      } catch (parseError) {
-        console.error('❌ Erro ao parsear perguntas:', parseError);
-      }
-      
-      // Fallback para perguntas padrão
-      return this.getFallbackQuestions(jobRole);
+      const { data: questions, source } = await this.requestStructured(messages, 'questions', questionListSchema, 'array', options.signal);
+      log.debug('Perguntas geradas:', questions, source);
+      // As parecidas com perguntas de sessões anteriores ficam para o fim (a apresentação abre sempre)
+      const ranked = rankByNovelty(questions, askedBefore);
+      const ordered = [
+        ...ranked.filter(question => question.category === 'intro').slice(0, 1),
+        ...ranked.filter(question => question.category !== 'intro'),
+      ];
+      return { questions: ordered.slice(0, count), source };
     } catch (error) {
-      console.error('❌ Erro ao gerar perguntas:', error);
-      return this.getFallbackQuestions(jobRole);
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao gerar perguntas:', error);
+      this.markFallback('questions');
+      return { questions: getBankQuestions(jobRole, experienceLevel, count, askedBefore), source: 'fallback' };
     }
   }
 
-  async generateFollowUpQuestion(previousQuestion: string, candidateAnswer: string, jobRole: string): Promise<string> {
-    console.log('🔄 Gerando pergunta de follow-up para:', { previousQuestion, candidateAnswer });
+  // Lista as competências exigidas na descrição da vaga (com extração local como fallback)
+  async extractRequiredSkills(jobDescription: string, options: RequestOptions = {}): Promise<string[]> {
+    log.debug('Extraindo competências da vaga');
+
+    const systemPrompt = `Você é um especialista em recrutamento.
+    Leia a descrição da vaga e liste as competências (técnicas e comportamentais) exigidas ao candidato.
+    
+    Regras:
+    - No máximo 10 competências, das mais importantes para as menos importantes
+    - Nomes curtos (1 a 4 palavras), em português
+    - Não repita competências equivalentes
+    
+    Retorne apenas um array JSON de strings, sem explicações adicionais.`;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `DESCRIÇÃO DA VAGA:\n${jobDescription}` }
+    ];
+
+    try {
+      const { data: skills, source } = await this.requestStructured(messages, 'skills', skillListSchema, 'array', options.signal);
+      log.debug('Competências extraídas:', skills, source);
+      return skills.slice(0, 10);
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao extrair competências:', error);
+      this.markFallback('skills');
+      return extractSkillsLocally(jobDescription);
+    }
+  }
+
+  // Follow-up com base em toda a transcrição (os turnos mais antigos são resumidos quando a conversa cresce)
+  async generateFollowUpQuestion(transcript: ConversationTurn[], jobRole: string, options: FollowUpOptions = {}): Promise<InterviewQuestion> {
+    const previousQuestion = transcript[transcript.length - 1].question;
+    log.debug('Gerando pergunta de follow-up com', transcript.length, 'turnos de contexto');
     
     const systemPrompt = `Você é um entrevistador experiente para a posição de ${jobRole}.
     
-    Com base na pergunta anterior e na resposta do candidato, gere uma pergunta de follow-up inteligente que:
-    - Aprofunde aspectos interessantes da resposta
-    - Peça exemplos específicos se necessário
-    - Explore competências técnicas ou comportamentais relevantes
+    Você recebe a entrevista até agora: as suas perguntas (assistant) e as respostas do candidato (user).
+    Gere a próxima pergunta de follow-up, inteligente, que:
+    - Aprofunde aspectos interessantes ou vagos das respostas, sobretudo da última
+    - Explore lacunas: competências ou temas que o candidato ainda não demonstrou
+    - Faça referência a respostas anteriores quando útil (ex.: "Há pouco mencionou...")
+    - NÃO repita nem reformule perguntas já feitas
     - Seja natural e conversacional
     
-    Retorne apenas a pergunta de follow-up, sem explicações adicionais.`;
-
-    const userPrompt = `Pergunta anterior: "${previousQuestion}"
-    
-    Resposta do candidato: "${candidateAnswer}"
+    ${CANDIDATE_CONTENT_RULE}
     
-    Gere uma pergunta de follow-up relevante.`;
+    Retorne apenas a pergunta de follow-up, sem explicações adicionais.`;
 
     try {
-      const messages: GroqMessage[] = [
+      const { older, recent } = splitForSummary(transcript);
+      const summary = older.length > 0 ? await this.summarizeTranscript(older, jobRole, options.signal) : undefined;
+
+      const askedQuestions = transcript.map(turn => `- ${turn.question.text}`).join('\n');
+      const messages: LLMMessage[] = [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
+        ...toConversationMessages(recent, summary),
+        {
+          role: 'user',
+          content: `[Instrução ao entrevistador] Perguntas já feitas (não repetir):
+${askedQuestions}
+
+Competência da última pergunta: ${previousQuestion.competency}.${options.difficulty ? `
+Dificuldade pretendida: ${DIFFICULTY_LABELS[options.difficulty]} (${describeAdjustment(previousQuestion.difficulty, options.difficulty)}).` : ''}
+Gere agora a próxima pergunta de follow-up.`
+        }
       ];
 
-      const response = await this.makeRequest(messages);
-      const followUpQuestion = response.trim().replace(/^["']|["']$/g, ''); // Remove aspas se houver
+      const response = options.onProgress
+        ? await this.collectStream(messages, 'followup', (content) => {
+            options.onProgress(content.trimStart().replace(/^["']/, ''));
+          }, options.signal)
+        : await this.makeRequest(messages, 'followup', options.signal);
+      const followUpText = response.trim().replace(/^["']|["']$/g, ''); // Remove aspas se houver
       
-      console.log('✅ Follow-up gerado:', followUpQuestion);
-      return followUpQuestion;
+      log.debug('Follow-up gerado:', followUpText);
+      return this.toFollowUpQuestion(followUpText, previousQuestion, options.difficulty);
     } catch (error) {
-      console.error('❌ Erro ao gerar follow-up:', error);
-      return "Pode dar um exemplo específico de uma situação onde aplicou essa experiência?";
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao gerar follow-up:', error);
+      this.markFallback('followup');
+      return this.toFollowUpQuestion(
+        "Pode dar um exemplo específico de uma situação onde aplicou essa experiência?",
+        previousQuestion,
+        options.difficulty
+      );
     }
   }
 
-  private calculateFallbackScore(answer: string): number {
-    if (!answer || answer.trim().length === 0) {
-      return 20; // Resposta vazia
+  // Relatório final: lê toda a transcrição e produz um parecer no estilo de um comité de contratação
+  async generateInterviewReport(
+    transcript: ConversationTurn[],
+    jobRole: string,
+    experienceLevel: string,
+    options: ReportOptions = {}
+  ): Promise<InterviewReport> {
+    log.debug('Gerando relatório final com', transcript.length, 'turnos');
+
+    const systemPrompt = `Você é um gestor de contratação experiente para a posição de ${jobRole} (nível ${experienceLevel}).
+Leia a entrevista completa e escreva um relatório final honesto e específico, citando as respostas do candidato.
+
+${CANDIDATE_CONTENT_RULE}
+
+Retorne APENAS um JSON válido sem explicações adicionais:
+{
+  "verdict": um de ${HIRING_VERDICTS_PROMPT},
+  "verdictRationale": "2 a 3 frases que justificam o parecer",
+  "strengths": ["os 3 maiores pontos fortes"],
+  "developmentAreas": ["as 3 principais áreas de desenvolvimento"],
+  "competencies": [
+    { "competency": "nome da competência", "score": [0-100], "assessment": "avaliação em uma frase" }
+  ],
+  "practicePlan": ["3 a 5 ações concretas de prática, com o que fazer e como medir o progresso"]
+}`;
+
+    const userPrompt = `${options.jobDescription ? `DESCRIÇÃO DA VAGA:
+${options.jobDescription}
+
+` : ''}${options.requiredSkills?.length ? `COMPETÊNCIAS EXIGIDAS: ${options.requiredSkills.join('; ')}
+
+` : ''}TRANSCRIÇÃO DA ENTREVISTA:
+${formatTranscript(transcript)}`;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    try {
+      const { data, source } = await this.requestStructured(messages, 'report', interviewReportSchema, 'object', options.signal);
+      log.debug('Relatório gerado:', data, source);
+      return { ...data, source };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao gerar relatório:', error);
+      this.markFallback('report');
+      return { ...buildLocalReport(transcript), source: 'fallback' };
+    }
+  }
+
+  // Resposta exemplar para a pergunta, ajustada à área e ao nível de experiência do candidato
+  async generateModelAnswer(
+    question: InterviewQuestion,
+    jobRole: string,
+    experienceLevel: string,
+    options: RequestOptions = {}
+  ): Promise<ModelAnswer> {
+    log.debug('Gerando resposta modelo para:', question.text);
+
+    const systemPrompt = `Você é um candidato exemplar à posição de ${jobRole}, com nível de experiência ${experienceLevel}.
+Escreva a resposta que daria numa entrevista real: na primeira pessoa, natural, específica e com exemplos concretos
+e plausíveis para esse nível de experiência (sem inventar cargos acima desse nível). Entre 120 e 250 palavras.
+
+Depois indique os pontos-chave que a resposta cobre. Para cada ponto, "excerpt" deve ser uma cópia LITERAL
+(palavra por palavra) de um trecho curto da resposta onde esse ponto aparece.
+
+Retorne APENAS um JSON válido sem explicações adicionais:
+{
+  "answer": "texto da resposta",
+  "keyPoints": [
+    { "point": "ponto-chave coberto", "excerpt": "trecho literal da resposta" }
+  ]
+}`;
+
+    const userPrompt = `PERGUNTA: "${question.text}"
+COMPETÊNCIA AVALIADA: ${question.competency} · DIFICULDADE: ${DIFFICULTY_LABELS[question.difficulty]}${question.expectedKeyPoints.length > 0 ? `
+PONTOS-CHAVE ESPERADOS: ${question.expectedKeyPoints.join('; ')}` : ''}`;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    try {
+      const { data, source } = await this.requestStructured(messages, 'model_answer', modelAnswerSchema, 'object', options.signal);
+      log.debug('Resposta modelo gerada:', data, source);
+      return { ...data, source };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao gerar resposta modelo:', error);
+      this.markFallback('model_answer');
+      return { ...this.getFallbackModelAnswer(question), source: 'fallback' };
     }
-    
-    const wordCount = answer.trim().split(/\s+/).length;
-    const hasExamples = /exemplo|experiência|projeto|trabalh|desenvolv|implement|criei|fiz|usei/i.test(answer);
-    const hasTechnicalTerms = /tecnologia|framework|linguagem|ferramenta|metodologia|processo/i.test(answer);
-    const isWellStructured = answer.includes('.') && wordCount > 20;
-    
-    let score = 40; // Base score
-    
-    // Pontuação baseada no comprimento
-    if (wordCount > 100) score += 15;
-    else if (wordCount > 50) score += 10;
-    else if (wordCount > 20) score += 5;
-    
-    // Pontuação baseada no conteúdo
-    if (hasExamples) score += 15;
-    if (hasTechnicalTerms) score += 10;
-    if (isWellStructured) score += 10;
-    
-    // Garantir que está no range correto
-    return Math.min(Math.max(score, 25), 85);
   }
 
-  private getFallbackQuestions(jobRole: string): string[] {
-    const fallbackQuestions = {
-      'Desenvolvedor Frontend': [
-        "Fale sobre sua experiência com desenvolvimento frontend e as tecnologias que domina.",
-        "Como você aborda a responsividade e acessibilidade em seus projetos?",
-        "Descreva um desafio técnico complexo que enfrentou recentemente e como resolveu.",
-        "Como você mantém seus conhecimentos atualizados na área de frontend?",
-        "Fale sobre sua experiência com ferramentas de versionamento e trabalho em equipe."
-      ],
-      'Desenvolvedor Backend': [
-        "Descreva sua experiência com desenvolvimento backend e as tecnologias que utiliza.",
-        "Como você projeta e implementa APIs REST eficientes?",
-        "Fale sobre sua experiência com bancos de dados e otimização de queries.",
-        "Como você lida com segurança e autenticação em aplicações backend?",
-        "Descreva um projeto onde implementou uma solução escalável."
-      ]
+  // Sem IA não há resposta exemplar: devolvemos um roteiro com os pontos-chave esperados
+  private getFallbackModelAnswer(question: InterviewQuestion): ModelAnswerPayload {
+    const keyPoints = question.expectedKeyPoints.length > 0
+      ? question.expectedKeyPoints
+      : ["Contexto da situação", "Ações que tomou", "Resultado obtido"];
+    const answer = `Uma resposta forte sobre ${question.competency.toLowerCase()} deveria seguir este roteiro: ${keyPoints.join('; ')}. Use um exemplo real da sua experiência e termine com o resultado alcançado.`;
+
+    return {
+      answer,
+      keyPoints: keyPoints.map(point => ({ point, excerpt: point }))
     };
+  }
+
+  // Dica gradual antes de responder; nunca deve conter a resposta completa
+  async generateHint(
+    question: InterviewQuestion,
+    level: HintLevel,
+    previousHints: string[],
+    jobRole: string,
+    options: RequestOptions = {}
+  ): Promise<InterviewHint> {
+    log.debug('Gerando dica de', level, 'para:', question.text);
+
+    const systemPrompt = `Você é um entrevistador para a posição de ${jobRole} a ajudar um candidato que pediu uma dica.
+${HINT_INSTRUCTIONS[level]}
+
+Regras:
+- NUNCA escreva a resposta completa nem frases que o candidato possa copiar
+- Uma ou duas frases, no máximo
+- Não repita as dicas anteriores
+
+Retorne APENAS um JSON válido sem explicações adicionais:
+{
+  "hint": "texto da dica"
+}`;
+
+    const userPrompt = `PERGUNTA: "${question.text}"
+COMPETÊNCIA AVALIADA: ${question.competency}${previousHints.length > 0 ? `
+DICAS ANTERIORES:
+${previousHints.map(hint => `- ${hint}`).join('\n')}` : ''}`;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    try {
+      const { data, source } = await this.requestStructured(messages, 'hint', hintSchema, 'object', options.signal);
+      log.debug('Dica gerada:', data, source);
+      return { level, text: data.hint, source };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error(`Erro ao gerar dica (${HINT_LABELS[level]}):`, error);
+      this.markFallback('hint');
+      return { level, text: getLocalHint(question, level), source: 'fallback' };
+    }
+  }
+
+  // Reescreve a resposta do candidato aplicando as sugestões de melhoria, sem inventar factos novos
+  async improveAnswer(
+    question: InterviewQuestion,
+    answer: string,
+    feedback: Pick<InterviewFeedback, 'improvements'>,
+    jobRole: string,
+    options: RequestOptions = {}
+  ): Promise<ImprovedAnswer> {
+    log.debug('Melhorando resposta para:', question.text);
+
+    const systemPrompt = `Você é um coach de entrevistas para a posição de ${jobRole}.
+Reescreva a resposta do candidato aplicando as sugestões de melhoria indicadas.
 
-    return fallbackQuestions[jobRole as keyof typeof fallbackQuestions] || [
-      `Fale sobre sua experiência profissional na área de ${jobRole}.`,
-      "Quais são suas principais competências técnicas?",
-      "Descreva um desafio que enfrentou e como o resolveu.",
-      "Como você se mantém atualizado na sua área?",
-      "Onde se vê profissionalmente nos próximos anos?"
+Regras:
+- Mantenha os factos, projetos, números e experiências do candidato; NÃO invente factos novos
+- Quando uma sugestão pedir informação que o candidato não deu, use um marcador entre parênteses retos (ex.: [resultado obtido])
+- Preserve a voz na primeira pessoa e, sempre que possível, as frases originais que já funcionam
+- Não acrescente nada que não responda à pergunta
+
+${CANDIDATE_CONTENT_RULE}
+
+Retorne APENAS um JSON válido sem explicações adicionais:
+{
+  "improvedAnswer": "resposta reescrita",
+  "changes": ["resumo curto de cada alteração"]
+}`;
+
+    const userPrompt = `PERGUNTA: "${question.text}"
+
+SUGESTÕES DE MELHORIA:
+${feedback.improvements.map(improvement => `- ${improvement}`).join('\n')}
+
+RESPOSTA ORIGINAL:
+${wrapCandidateContent(answer)}`;
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
     ];
+
+    try {
+      const { data, source } = await this.requestStructured(messages, 'improve', improvedAnswerSchema, 'object', options.signal);
+      log.debug('Resposta melhorada:', data, source);
+      return { ...data, source };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao melhorar resposta:', error);
+      this.markFallback('improve');
+      // Sem IA não reescrevemos: a resposta fica igual e as sugestões são para aplicar à mão
+      return { improvedAnswer: answer, changes: [], source: 'fallback' };
+    }
+  }
+
+  // Resume os turnos antigos da entrevista (com cache, para não repetir a chamada a cada follow-up)
+  private async summarizeTranscript(turns: ConversationTurn[], jobRole: string, signal?: AbortSignal): Promise<string> {
+    const transcriptText = formatTranscript(turns);
+    const cached = this.summaryCache.get(transcriptText);
+    if (cached) return cached;
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `Você resume entrevistas para a posição de ${jobRole}.
+    Resuma a transcrição em tópicos curtos: o que o candidato demonstrou, exemplos concretos citados,
+    pontos vagos ou lacunas e temas já cobertos. Máximo de 12 tópicos, em português.
+    ${CANDIDATE_CONTENT_RULE}`
+      },
+      { role: 'user', content: transcriptText }
+    ];
+
+    try {
+      const summary = (await this.makeRequest(messages, 'summary', signal)).trim();
+      if (summary) {
+        this.summaryCache.set(transcriptText, summary);
+        return summary;
+      }
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      log.error('Erro ao resumir a transcrição:', error);
+      this.markFallback('summary');
+    }
+
+    return summarizeLocally(turns);
+  }
+
+  // O follow-up herda a competência e a dificuldade da pergunta que aprofunda
+  private toFollowUpQuestion(text: string, previousQuestion: InterviewQuestion, difficulty?: QuestionDifficulty): InterviewQuestion {
+    return {
+      text,
+      category: 'followup',
+      competency: previousQuestion.competency,
+      difficulty: difficulty ?? previousQuestion.difficulty,
+      expectedKeyPoints: []
+    };
   }
 }
 
 export const groqService = new GroqService();
-export type { InterviewFeedback };
\ No newline at end of file
+export type { ConversationTurn, InterviewFeedback, InterviewQuestion, InterviewReport, InterviewHint, ImprovedAnswer, ModelAnswer, ReportOptions, EvaluationOptions, FollowUpOptions, GeneratedQuestions, QuestionOptions, RequestOptions, ResultSource };
\ No newline at end of file
@@ -0,0 +1,66 @@
+import type { InterviewQuestion } from './questions';
+
+// Dicas graduais pedidas antes de responder: cada nível revela mais e custa mais pontos
+
+type HintLevel = 'structure' | 'content' | 'example';
+
+const HINT_LEVELS: HintLevel[] = ['structure', 'content', 'example'];
+
+const HINT_LABELS: Record<HintLevel, string> = {
+  structure: 'Estrutura',
+  content: 'Conteúdo',
+  example: 'Exemplo',
+};
+
+// Pontos descontados à pontuação final por cada dica usada
+const HINT_PENALTIES: Record<HintLevel, number> = {
+  structure: 5,
+  content: 10,
+  example: 15,
+};
+
+// O que cada nível pode revelar (usado no prompt)
+const HINT_INSTRUCTIONS: Record<HintLevel, string> = {
+  structure: 'Sugira apenas como organizar a resposta (ex.: ordem dos tópicos, formato STAR), sem falar do conteúdo.',
+  content: 'Indique um ou dois temas ou conceitos que a resposta deveria abordar, sem os desenvolver.',
+  example: 'Sugira o tipo de exemplo ou situação da experiência do candidato que funcionaria bem, sem escrever a resposta.',
+};
+
+function nextHintLevel(used: HintLevel[]): HintLevel | undefined {
+  return HINT_LEVELS.find(level => !used.includes(level));
+}
+
+function getHintPenalty(used: HintLevel[] = []): number {
+  return used.reduce((total, level) => total + HINT_PENALTIES[level], 0);
+}
+
+function applyHintPenalty(score: number, used: HintLevel[] = []): number {
+  return Math.max(0, score - getHintPenalty(used));
+}
+
+// Dicas genéricas quando a IA não está disponível
+function getLocalHint(question: InterviewQuestion, level: HintLevel): string {
+  switch (level) {
+    case 'structure':
+      return question.category === 'technical'
+        ? 'Comece pelo conceito, explique como o aplicou na prática e termine com as vantagens e limitações.'
+        : 'Organize a resposta em Situação, Tarefa, Ação e Resultado (STAR).';
+    case 'content':
+      return question.expectedKeyPoints.length > 0
+        ? `Pense em abordar: ${question.expectedKeyPoints[0]}.`
+        : `Relacione a resposta com a competência "${question.competency}".`;
+    case 'example':
+      return 'Escolha um projeto recente em que teve um papel ativo e um resultado que consiga medir.';
+  }
+}
+
+export {
+  HINT_LABELS,
+  HINT_PENALTIES,
+  HINT_INSTRUCTIONS,
+  nextHintLevel,
+  getHintPenalty,
+  applyHintPenalty,
+  getLocalHint,
+};
+export type { HintLevel };
@@ -0,0 +1,94 @@
+import type { LLMMessage, LLMTask } from './llmProviders';
+
+// Registo em memória dos pedidos feitos ao LLM nesta sessão, para o painel de desenvolvimento
+
+const DEV_PANEL_STORAGE_KEY = 'talk-skill-ai:dev-panel';
+
+// Só guardamos os pedidos mais recentes
+const MAX_RECORDED_CALLS = 100;
+
+type LLMCallStatus = 'pending' | 'success' | 'error';
+
+interface LLMCallParseResult {
+  valid: boolean;
+  // Mensagem de validação quando a resposta não passou no schema
+  error?: string;
+}
+
+interface LLMCallRecord {
+  id: number;
+  task: LLMTask;
+  provider: string;
+  streamed: boolean;
+  // Tentativa de transporte (retries por erro de rede, rate limit...), a contar de 1
+  attempt: number;
+  startedAt: number;
+  latencyMs?: number;
+  status: LLMCallStatus;
+  // Mensagens tal como foram enviadas (já com os dados pessoais ocultados)
+  messages: LLMMessage[];
+  // Texto devolvido pelo provider, antes de repor os dados pessoais
+  response?: string;
+  error?: string;
+  // Apenas para tarefas com saída estruturada (JSON)
+  parse?: LLMCallParseResult;
+  // O resultado mostrado ao utilizador acabou por vir do fallback local
+  fallbackUsed: boolean;
+}
+
+type LLMCallListener = (calls: LLMCallRecord[]) => void;
+
+let calls: LLMCallRecord[] = [];
+let nextId = 1;
+const listeners = new Set<LLMCallListener>();
+
+const notify = () => listeners.forEach(listener => listener(calls));
+
+type NewLLMCall = Pick<LLMCallRecord, 'task' | 'provider' | 'streamed' | 'attempt' | 'messages'>;
+
+function startLLMCall(call: NewLLMCall): number {
+  const id = nextId++;
+  const record: LLMCallRecord = { ...call, id, startedAt: Date.now(), status: 'pending', fallbackUsed: false };
+  calls = [...calls, record].slice(-MAX_RECORDED_CALLS);
+  notify();
+  return id;
+}
+
+// Atualiza um registo sem o mutar, para que os componentes React detetem a mudança
+function updateLLMCall(id: number, changes: Partial<Omit<LLMCallRecord, 'id'>>): void {
+  if (!calls.some(call => call.id === id)) return;
+  calls = calls.map(call => (call.id === id ? { ...call, ...changes } : call));
+  notify();
+}
+
+function getLLMCalls(): LLMCallRecord[] {
+  return calls;
+}
+
+function subscribeLLMCalls(listener: LLMCallListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function clearLLMCalls(): void {
+  calls = [];
+  notify();
+}
+
+// Painel visível em desenvolvimento; em produção pode ser ativado com localStorage["talk-skill-ai:dev-panel"] = "true"
+function isDevPanelEnabled(): boolean {
+  if (import.meta.env.DEV) return true;
+  return typeof localStorage !== 'undefined' && localStorage.getItem(DEV_PANEL_STORAGE_KEY) === 'true';
+}
+
+export {
+  clearLLMCalls,
+  getLLMCalls,
+  isDevPanelEnabled,
+  startLLMCall,
+  subscribeLLMCalls,
+  updateLLMCall,
+};
+export type { LLMCallParseResult, LLMCallRecord, LLMCallStatus };
@@ -0,0 +1,103 @@
+type LLMErrorKind = 'auth' | 'rate_limit' | 'server' | 'network' | 'timeout' | 'bad_request' | 'config' | 'aborted';
+
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate_limit', 'server', 'network', 'timeout'];
+
+class LLMError extends Error {
+  constructor(
+    public readonly kind: LLMErrorKind,
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  // Mensagem pensada para o utilizador final (toasts)
+  get userMessage(): string {
+    switch (this.kind) {
+      case 'auth':
+        return "A API key foi recusada pelo serviço de IA. Verifique se está correta e ativa.";
+      case 'rate_limit':
+        return this.retryAfterMs
+          ? `Limite de pedidos atingido. Tente novamente em ${Math.ceil(this.retryAfterMs / 1000)}s.`
+          : "Limite de pedidos atingido. Aguarde um pouco e tente novamente.";
+      case 'server':
+        return `O serviço de IA está com problemas${this.status ? ` (erro ${this.status})` : ''}. Tente mais tarde.`;
+      case 'network':
+        return "Não foi possível contactar o serviço de IA. Verifique a sua ligação à internet.";
+      case 'timeout':
+        return "O serviço de IA demorou demasiado a responder.";
+      case 'bad_request':
+        return "O pedido foi rejeitado pelo serviço de IA.";
+      case 'config':
+        return "Configure sua API key do Groq para avaliação completa.";
+      case 'aborted':
+        return "O pedido foi cancelado.";
+    }
+  }
+}
+
+// Retry-After pode vir em segundos ou como data HTTP
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function errorFromResponse(response: Response): Promise<LLMError> {
+  const errorData = await response.text().catch(() => '');
+  const message = `Erro na API: ${response.status} ${response.statusText} - ${errorData}`;
+
+  if (response.status === 401 || response.status === 403) {
+    return new LLMError('auth', message, response.status);
+  }
+  if (response.status === 429) {
+    return new LLMError('rate_limit', message, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (response.status === 408) {
+    return new LLMError('timeout', message, response.status);
+  }
+  if (response.status >= 500) {
+    return new LLMError('server', message, response.status);
+  }
+  return new LLMError('bad_request', message, response.status);
+}
+
+// Normaliza qualquer erro lançado durante uma chamada (fetch, parse do stream...) para LLMError
+function toLLMError(error: unknown, timedOut = false, signal?: AbortSignal): LLMError {
+  if (error instanceof LLMError) return error;
+
+  if (signal?.aborted) {
+    return new LLMError('aborted', 'Pedido cancelado');
+  }
+
+  if (timedOut) {
+    return new LLMError('timeout', 'Tempo limite do pedido excedido');
+  }
+
+  // fetch rejeita com TypeError quando não há rede, CORS ou DNS
+  if (error instanceof TypeError) {
+    return new LLMError('network', error.message);
+  }
+
+  return new LLMError('server', error instanceof Error ? error.message : String(error));
+}
+
+// Cancelamentos pedidos pelo utilizador não devem cair em fallbacks nem gerar toasts
+function isAbortError(error: unknown): boolean {
+  return error instanceof LLMError && error.kind === 'aborted';
+}
+
+export { LLMError, errorFromResponse, isAbortError, toLLMError };
+export type { LLMErrorKind };
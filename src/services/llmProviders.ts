@@ -0,0 +1,371 @@
+import { errorFromResponse } from './llmErrors';
+import { CRITERION_KEYS } from './rubric';
+import { readNDJSON, readServerSentEvents } from './streaming';
+import { createLogger } from './logger';
+
+const log = createLogger('llm');
+
+interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Tipo de tarefa de cada chamada - usado pelo provider mock para responder de forma coerente
+type LLMTask = 'evaluate' | 'questions' | 'followup' | 'skills' | 'summary' | 'report' | 'model_answer' | 'improve' | 'hint';
+
+interface LLMRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+interface LLMProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  complete(request: LLMRequest): Promise<string>;
+  // Devolve o texto gerado em pedaços, à medida que chega
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
+type LLMProviderType = 'openai' | 'local' | 'mock';
+
+interface LLMSettings {
+  provider: LLMProviderType;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+interface OpenAIResponse {
+  choices: {
+    message: {
+      content: string;
+    };
+  }[];
+}
+
+interface OpenAIStreamChunk {
+  choices: {
+    delta?: {
+      content?: string;
+    };
+  }[];
+}
+
+interface OllamaChatResponse {
+  message?: {
+    content: string;
+  };
+  done?: boolean;
+}
+
+const SETTINGS_STORAGE_KEY = 'talk-skill-ai:llm-settings';
+
+const DEFAULT_SETTINGS: Record<LLMProviderType, Omit<LLMSettings, 'provider'>> = {
+  openai: {
+    baseUrl: 'https://api.groq.com/openai/v1',
+    model: 'llama-3.3-70b-versatile',
+  },
+  local: {
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.1',
+  },
+  mock: {
+    baseUrl: '',
+    model: 'mock',
+  },
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1000;
+
+// Qualquer endpoint compatível com a API de chat da OpenAI (Groq, OpenAI, OpenRouter, vLLM...)
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(private settings: LLMSettings) {}
+
+  // Servidores próprios (LM Studio, vLLM, llama.cpp...) costumam dispensar a API key
+  isConfigured(): boolean {
+    return Boolean(this.settings.apiKey) || this.settings.baseUrl !== DEFAULT_SETTINGS.openai.baseUrl;
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data: OpenAIResponse = await response.json();
+    return data.choices[0]?.message?.content || '';
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+
+    for await (const data of readServerSentEvents(response)) {
+      const chunk: OpenAIStreamChunk = JSON.parse(data);
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) yield content;
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.settings.apiKey) {
+      headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+    }
+
+    const response = await fetch(`${this.settings.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages: request.messages,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response;
+  }
+}
+
+// Servidor local no estilo Ollama (/api/chat). Não precisa de API key.
+class LocalServerProvider implements LLMProvider {
+  readonly name = 'local';
+
+  constructor(private settings: LLMSettings) {}
+
+  isConfigured(): boolean {
+    return Boolean(this.settings.baseUrl);
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const response = await this.post(request, false);
+    const data: OllamaChatResponse = await response.json();
+    return data.message?.content || '';
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const response = await this.post(request, true);
+
+    for await (const chunk of readNDJSON<OllamaChatResponse>(response)) {
+      if (chunk.message?.content) yield chunk.message.content;
+      if (chunk.done) return;
+    }
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(`${this.settings.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.settings.model,
+        messages: request.messages,
+        stream,
+        options: {
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          num_predict: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response;
+  }
+}
+
+// Provider em memória e determinístico - útil para desenvolvimento e demos sem rede
+class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const content = await this.complete(request);
+
+    // Simula a chegada em pedaços para exercitar a UI de streaming
+    for (const chunk of content.match(/.{1,12}/gs) ?? []) {
+      await new Promise(resolve => setTimeout(resolve, 15));
+      request.signal?.throwIfAborted();
+      yield chunk;
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<string> {
+    const lastUserMessage = [...request.messages].reverse().find(message => message.role === 'user');
+    const seed = hashString(lastUserMessage?.content || '');
+
+    switch (request.task) {
+      case 'evaluate':
+        return JSON.stringify({
+          criteria: CRITERION_KEYS.map((criterion, index) => ({
+            criterion,
+            score: 50 + ((seed >>> index) % 45),
+            justification: "Avaliação simulada para este critério."
+          })),
+          strengths: ["Resposta objetiva", "Boa relação com a pergunta"],
+          improvements: ["Incluir um exemplo concreto", "Quantificar os resultados obtidos"],
+          overall: "Avaliação simulada: a resposta cobre o essencial, mas pode ganhar profundidade com exemplos.",
+          demonstratedSkills: []
+        });
+      case 'questions':
+        return JSON.stringify(MOCK_QUESTIONS.map((text, index) => ({
+          text,
+          category: index === 0 ? 'intro' : MOCK_CATEGORIES[index % MOCK_CATEGORIES.length],
+          competency: "Experiência profissional",
+          difficulty: index < 3 ? 'easy' : index < 7 ? 'medium' : 'hard',
+          expectedKeyPoints: ["Contexto da situação", "Ações concretas", "Resultados obtidos"]
+        })));
+      case 'followup':
+        return MOCK_FOLLOW_UPS[seed % MOCK_FOLLOW_UPS.length];
+      case 'summary':
+        return "- Resumo simulado: o candidato descreveu a sua experiência e deu alguns exemplos.";
+      case 'report':
+        return JSON.stringify({
+          verdict: 'hire',
+          verdictRationale: "Relatório simulado: o candidato mostrou uma base sólida, com espaço para aprofundar exemplos.",
+          strengths: ["Comunicação clara", "Boa estrutura nas respostas", "Motivação para a função"],
+          developmentAreas: ["Quantificar resultados", "Dar exemplos mais técnicos", "Respostas mais concisas"],
+          competencies: [
+            { competency: "Experiência profissional", score: 72, assessment: "Demonstrada com exemplos gerais." }
+          ],
+          practicePlan: [
+            "Prepare três histórias no formato STAR com resultados mensuráveis.",
+            "Grave-se a responder e reduza cada resposta para menos de dois minutos.",
+            "Reveja os requisitos técnicos da vaga e prepare um exemplo para cada um."
+          ]
+        });
+      case 'model_answer':
+        return JSON.stringify({
+          answer: "No meu último projeto, liderei a migração de um sistema legado. Comecei por mapear os riscos com a equipa, definimos entregas semanais e medimos o progresso com indicadores claros. O resultado foi uma redução de 30% no tempo de resposta e zero incidentes no lançamento.",
+          keyPoints: [
+            { point: "Contexto concreto", excerpt: "liderei a migração de um sistema legado" },
+            { point: "Ações estruturadas", excerpt: "definimos entregas semanais" },
+            { point: "Resultado mensurável", excerpt: "redução de 30% no tempo de resposta" }
+          ]
+        });
+      case 'improve': {
+        const original = lastUserMessage?.content.split('RESPOSTA ORIGINAL:\n')[1]?.replace(/<\/?resposta_do_candidato>/g, '').trim() || '';
+        return JSON.stringify({
+          improvedAnswer: `${original} Como resultado, a equipa entregou o projeto dentro do prazo e aprendi a priorizar melhor.`,
+          changes: ["Acrescentado o resultado concreto da situação"]
+        });
+      }
+      case 'hint':
+        return JSON.stringify({
+          hint: "Pense numa situação concreta em que esteve envolvido e comece por descrever o contexto."
+        });
+      case 'skills':
+        return JSON.stringify(["Comunicação", "Trabalho em equipe", "Resolução de problemas"]);
+    }
+  }
+}
+
+const MOCK_QUESTIONS = [
+  "Fale-me um pouco sobre você e a sua trajetória profissional.",
+  "Qual foi o projeto mais desafiante em que trabalhou e qual foi o seu papel?",
+  "Como você prioriza tarefas quando tem vários prazos ao mesmo tempo?",
+  "Descreva uma situação em que discordou de um colega e como resolveram.",
+  "Que ferramentas ou métodos usa para garantir a qualidade do seu trabalho?",
+  "Conte sobre um erro que cometeu e o que aprendeu com ele.",
+  "Como se mantém atualizado na sua área?",
+  "Descreva uma decisão difícil que teve de tomar com pouca informação.",
+  "Como mede o sucesso do seu trabalho?",
+  "Porque acha que é a pessoa certa para esta posição?"
+];
+
+const MOCK_CATEGORIES = ['technical', 'behavioral', 'situational'];
+
+const MOCK_FOLLOW_UPS = [
+  "Pode dar um exemplo concreto de como isso aconteceu na prática?",
+  "Que resultados mensuráveis obteve com essa abordagem?",
+  "O que faria de diferente se enfrentasse a mesma situação hoje?"
+];
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function isProviderType(value: unknown): value is LLMProviderType {
+  return value === 'openai' || value === 'local' || value === 'mock';
+}
+
+// Override guardado no navegador (vazio quando não há nenhum)
+function getStoredLLMSettings(): Partial<LLMSettings> {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+  return stored ? JSON.parse(stored) : {};
+}
+
+// Configurações: variáveis de ambiente como base, com override opcional salvo no navegador
+function getLLMSettings(): LLMSettings {
+  const envProvider = import.meta.env.VITE_LLM_PROVIDER;
+  const provider: LLMProviderType = isProviderType(envProvider) ? envProvider : 'openai';
+
+  const envSettings: LLMSettings = {
+    provider,
+    baseUrl: import.meta.env.VITE_API_BASE_URL || DEFAULT_SETTINGS[provider].baseUrl,
+    model: import.meta.env.VITE_LLM_MODEL || DEFAULT_SETTINGS[provider].model,
+    apiKey: import.meta.env.VITE_GROQ_API_KEY,
+  };
+
+  try {
+    const overrides = getStoredLLMSettings();
+    if (Object.keys(overrides).length === 0) {
+      return envSettings;
+    }
+
+    const storedProvider = isProviderType(overrides.provider) ? overrides.provider : envSettings.provider;
+    const providerChanged = storedProvider !== envSettings.provider;
+
+    return {
+      provider: storedProvider,
+      baseUrl: overrides.baseUrl || (providerChanged ? DEFAULT_SETTINGS[storedProvider].baseUrl : envSettings.baseUrl),
+      model: overrides.model || (providerChanged ? DEFAULT_SETTINGS[storedProvider].model : envSettings.model),
+      apiKey: overrides.apiKey || envSettings.apiKey,
+    };
+  } catch (error) {
+    log.warn('Configurações de LLM inválidas no armazenamento local. Usando variáveis de ambiente.', error);
+    return envSettings;
+  }
+}
+
+function saveLLMSettings(settings: Partial<LLMSettings> | null): void {
+  if (settings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SETTINGS_STORAGE_KEY);
+  }
+}
+
+function createProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'local':
+      return new LocalServerProvider(settings);
+    case 'mock':
+      return new MockProvider();
+    case 'openai':
+    default:
+      return new OpenAICompatibleProvider(settings);
+  }
+}
+
+export { createProvider, getLLMSettings, getStoredLLMSettings, saveLLMSettings };
+export type { LLMMessage, LLMTask, LLMRequest, LLMProvider, LLMProviderType, LLMSettings };
@@ -0,0 +1,62 @@
+// Logger com níveis, para poder silenciar o console em produção
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LOG_LEVEL_STORAGE_KEY = 'talk-skill-ai:log-level';
+
+const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const isLogLevel = (value: unknown): value is LogLevel =>
+  typeof value === 'string' && value in LOG_LEVEL_PRIORITY;
+
+// Ordem de prioridade: localStorage (útil para depurar em produção), VITE_LOG_LEVEL e, por fim,
+// "debug" em desenvolvimento e "warn" no build de produção
+function getLogLevel(): LogLevel {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(LOG_LEVEL_STORAGE_KEY) : null;
+  if (isLogLevel(stored)) return stored;
+
+  const configured = import.meta.env.VITE_LOG_LEVEL;
+  if (isLogLevel(configured)) return configured;
+
+  return import.meta.env.PROD ? 'warn' : 'debug';
+}
+
+type LogMethod = (message: string, ...data: unknown[]) => void;
+
+interface Logger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+const CONSOLE_METHODS: Record<Exclude<LogLevel, 'silent'>, LogMethod> = {
+  debug: (...args) => console.debug(...args),
+  info: (...args) => console.info(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args),
+};
+
+// Cada módulo cria o seu logger; o âmbito aparece como prefixo (ex.: "[groq] ...")
+function createLogger(scope: string): Logger {
+  const method = (level: Exclude<LogLevel, 'silent'>): LogMethod => (message, ...data) => {
+    if (LOG_LEVEL_PRIORITY[level] < LOG_LEVEL_PRIORITY[getLogLevel()]) return;
+    CONSOLE_METHODS[level](`[${scope}] ${message}`, ...data);
+  };
+
+  return {
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error'),
+  };
+}
+
+export { createLogger };
+export type { Logger, LogLevel };
@@ -0,0 +1,312 @@
+import type { InterviewQuestion } from './questions';
+import { getCriterionLabel, type CriterionKey, type CriterionScore } from './rubric';
+import type { FeedbackPayload } from './schemas';
+import { matchSkillsInText } from './skills';
+import { normalizeText } from './text';
+
+// Avaliador local (sem IA): heurísticas de vocabulário, estrutura, repetição e relevância por critério da rubrica
+
+const STOPWORDS = new Set([
+  'a', 'ao', 'aos', 'as', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'ela', 'ele', 'em', 'entre', 'era',
+  'essa', 'esse', 'esta', 'este', 'eu', 'foi', 'ha', 'isso', 'isto', 'ja', 'lhe', 'mais', 'mas', 'me', 'meu',
+  'minha', 'muito', 'na', 'nas', 'nao', 'no', 'nos', 'num', 'numa', 'o', 'os', 'ou', 'para', 'pela', 'pelo',
+  'por', 'qual', 'quais', 'que', 'se', 'sem', 'ser', 'seu', 'sua', 'suas', 'seus', 'sim', 'so', 'sobre', 'tambem',
+  'te', 'tem', 'ter', 'tinha', 'um', 'uma', 'umas', 'uns', 'voce', 'sao', 'estou', 'estava', 'fale', 'pouco',
+  'descreva', 'conte', 'algum', 'alguma', 'quando', 'onde', 'porque', 'entao', 'ate', 'depois', 'tudo', 'coisa',
+]);
+
+// Vocabulário esperado em cada área do setup (comparação sem acentos, por prefixo)
+const AREA_KEYWORDS: Record<string, string[]> = {
+  'Tecnologia da Informação': [
+    'api', 'arquitetura', 'banco de dados', 'sql', 'cloud', 'deploy', 'testes', 'codigo', 'framework', 'react',
+    'java', 'python', 'typescript', 'microservic', 'docker', 'kubernetes', 'git', 'performance', 'seguranca',
+    'escalabil', 'refator', 'ci/cd', 'debug', 'algoritmo', 'infraestrutura', 'requisitos', 'agil', 'scrum',
+  ],
+  'Marketing Digital': [
+    'seo', 'campanha', 'conversao', 'funil', 'lead', 'roi', 'ctr', 'cpc', 'cpa', 'engajamento', 'persona',
+    'conteudo', 'redes sociais', 'analytics', 'teste a/b', 'branding', 'trafego', 'email marketing', 'kpi',
+    'segmentacao', 'publico-alvo', 'orcamento', 'inbound',
+  ],
+  'Recursos Humanos': [
+    'recrutamento', 'selecao', 'onboarding', 'clima', 'retencao', 'turnover', 'avaliacao de desempenho',
+    'feedback', 'cultura', 'beneficios', 'remuneracao', 'formacao', 'treinamento', 'legislacao', 'entrevista',
+    'colaborador', 'engajamento', 'people analytics', 'competencias', 'diversidade',
+  ],
+  'Vendas': [
+    'cliente', 'pipeline', 'prospecao', 'prospeccao', 'negociacao', 'fechamento', 'objecao', 'meta', 'crm',
+    'follow-up', 'ticket medio', 'funil', 'proposta', 'relacionamento', 'comissao', 'carteira', 'upsell',
+    'cross-sell', 'forecast', 'conversao',
+  ],
+  'Finanças': [
+    'fluxo de caixa', 'orcamento', 'balanco', 'dre', 'ebitda', 'margem', 'custo', 'receita', 'forecast',
+    'auditoria', 'compliance', 'conciliacao', 'contabil', 'fiscal', 'imposto', 'investimento', 'risco',
+    'valuation', 'capital de giro', 'indicadores', 'excel', 'relatorio',
+  ],
+  'Design': [
+    'ux', 'ui', 'usuario', 'utilizador', 'prototipo', 'wireframe', 'figma', 'pesquisa', 'persona', 'usabilidade',
+    'acessibilidade', 'design system', 'tipografia', 'jornada', 'teste de usabilidade', 'iteracao', 'heuristica',
+    'layout', 'grid', 'stakeholders',
+  ],
+  'Engenharia': [
+    'projeto', 'calculo', 'norma', 'seguranca', 'qualidade', 'manutencao', 'processo', 'especificacao',
+    'orcamento', 'prazo', 'cad', 'simulacao', 'ensaio', 'tolerancia', 'materiais', 'obra', 'producao',
+    'lean', 'melhoria continua', 'risco',
+  ],
+  'Consultoria': [
+    'cliente', 'diagnostico', 'stakeholders', 'recomendacao', 'analise', 'hipotese', 'framework', 'workshop',
+    'entregavel', 'escopo', 'apresentacao', 'benchmark', 'roadmap', 'implementacao', 'mudanca', 'kpi',
+    'problema', 'estrategia', 'dados',
+  ],
+  'Gestão de Projetos': [
+    'escopo', 'cronograma', 'prazo', 'orcamento', 'risco', 'stakeholders', 'agil', 'scrum', 'kanban', 'sprint',
+    'backlog', 'entrega', 'marco', 'dependencia', 'prioridade', 'comunicacao', 'equipa', 'equipe', 'pmbok',
+    'retrospectiva', 'status report',
+  ],
+};
+
+// Vocabulário associado a competências transversais (pelo nome da competência da pergunta)
+const COMPETENCY_KEYWORDS: { match: RegExp; keywords: string[] }[] = [
+  { match: /comunica/, keywords: ['explic', 'apresent', 'ouvi', 'alinh', 'reuniao', 'clareza', 'feedback'] },
+  { match: /lideran|gest/, keywords: ['equipa', 'equipe', 'deleg', 'motiv', 'mentor', 'decid', 'responsab', 'lider'] },
+  { match: /problema|desafi|resolu/, keywords: ['causa', 'analis', 'solucao', 'alternativ', 'hipotese', 'testei', 'resolv'] },
+  { match: /equipa|equipe|colabora|trabalho em/, keywords: ['colabor', 'ajud', 'conflito', 'alinh', 'colega', 'partilh', 'compartilh'] },
+  { match: /aprendiz|atualiz|desenvolvimento pessoal/, keywords: ['curso', 'estud', 'livro', 'certifica', 'pratic', 'comunidade', 'aprend'] },
+  { match: /motiva|objetivo|carreira/, keywords: ['objetivo', 'cresc', 'interess', 'valores', 'impacto', 'futuro', 'aprend'] },
+  { match: /prioriz|tempo|organiza/, keywords: ['priori', 'prazo', 'planej', 'planeam', 'urgente', 'agenda', 'organiz'] },
+];
+
+// Marcadores do formato STAR (situação, tarefa, ação, resultado)
+const STAR_MARKERS: Record<'situation' | 'task' | 'action' | 'result', RegExp> = {
+  situation: /\b(no meu (ultimo|anterior)|numa|quando (eu )?(estava|trabalhava)|na (empresa|altura|epoca)|num projeto|no projeto|certa vez)/,
+  task: /\b(objetivo|responsavel|precisava|precisavamos|tinha de|tinha que|tarefa|meta|desafio era|fui encarregad)/,
+  action: /\b(implementei|decidi|criei|liderei|organizei|propus|desenvolvi|analisei|conversei|negociei|defini|automatizei|fiz|montei|reuni)/,
+  result: /\b(resultado|consegui|conseguimos|reduz|aument|melhor(ou|amos)|entreg(ou|amos|uei)|economi|ganh|\d+\s?%)/,
+};
+
+const ENUMERATION_PATTERN = /(^|\n)\s*([-•*]|\d+[.)])\s+|\b(primeiro|em primeiro lugar|segundo|terceiro|por fim|por ultimo|alem disso|depois)\b/g;
+const REASONING_PATTERN = /\b(porque|portanto|por isso|logo|vantage|desvantage|trade-?off|alternativ|compar|em vez de|impacto|consequencia)/g;
+
+// Pontos-chave genéricos ("Contexto", "Resultado obtido"...) equivalem às partes do STAR
+const KEY_POINT_STAR_ALIASES: { stems: string[]; part: keyof typeof STAR_MARKERS }[] = [
+  { stems: ['conte', 'situa', 'cenar'], part: 'situation' },
+  { stems: ['objet', 'taref', 'meta'], part: 'task' },
+  { stems: ['acoes', 'acao', 'abord', 'solu', 'passo'], part: 'action' },
+  { stems: ['resul', 'impac', 'metri', 'licoe'], part: 'result' },
+];
+
+interface AnswerSignals {
+  wordCount: number;
+  averageSentenceLength: number;
+  areaTerms: string[];
+  competencyTerms: string[];
+  star: Record<keyof typeof STAR_MARKERS, boolean>;
+  enumerations: number;
+  reasoningMarkers: number;
+  hasNumbers: boolean;
+  repeatedWords: string[];
+  relevance: number;
+  coveredKeyPoints: string[];
+  missingKeyPoints: string[];
+}
+
+function contentWords(text: string): string[] {
+  const words: string[] = normalizeText(text).match(/[a-z0-9]+/g) ?? [];
+  return words.filter(word => word.length > 2 && !STOPWORDS.has(word));
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^$()|[\]{}\\/]/g, '\\$&');
+
+// Termo no início de uma palavra (evita que "ui" conte dentro de "seguir")
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(term)}`).test(text);
+}
+
+// Comparação por radical aproximado (5 primeiras letras) para aceitar flexões
+const stem = (word: string) => word.slice(0, 5);
+
+function overlap(reference: string[], candidate: Set<string>): number {
+  const stems = [...new Set(reference.map(stem))];
+  if (stems.length === 0) return 0;
+  return stems.filter(item => candidate.has(item)).length / stems.length;
+}
+
+function findAreaKeywords(area: string): string[] {
+  const normalizedArea = normalizeText(area);
+  const entry = Object.entries(AREA_KEYWORDS).find(([name]) => normalizeText(name) === normalizedArea);
+  return entry?.[1] ?? [];
+}
+
+function analyzeAnswer(question: InterviewQuestion, answer: string, area: string): AnswerSignals {
+  const normalizedAnswer = normalizeText(answer);
+  const words = contentWords(answer);
+  const answerStems = new Set(words.map(stem));
+  const sentences = answer.split(/[.!?]+/).map(sentence => sentence.trim()).filter(Boolean);
+  const wordCount = answer.trim().split(/\s+/).filter(Boolean).length;
+
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+  const repeatedWords = [...counts.entries()]
+    .filter(([, count]) => count >= 4 && count / Math.max(words.length, 1) > 0.06)
+    .sort((a, b) => b[1] - a[1])
+    .map(([word]) => word);
+
+  const competencyKeywords = COMPETENCY_KEYWORDS
+    .filter(({ match }) => match.test(normalizeText(question.competency)))
+    .flatMap(({ keywords }) => keywords);
+
+  const star = {
+    situation: STAR_MARKERS.situation.test(normalizedAnswer),
+    task: STAR_MARKERS.task.test(normalizedAnswer),
+    action: STAR_MARKERS.action.test(normalizedAnswer),
+    result: STAR_MARKERS.result.test(normalizedAnswer),
+  };
+  const keyPointsCovered = question.expectedKeyPoints.filter(point => {
+    const pointStems = contentWords(point).map(stem);
+    const alias = KEY_POINT_STAR_ALIASES.find(({ stems }) => stems.some(item => pointStems.includes(item)));
+    return (alias && star[alias.part]) || overlap(contentWords(point), answerStems) >= 0.5;
+  });
+
+  return {
+    wordCount,
+    averageSentenceLength: sentences.length > 0 ? wordCount / sentences.length : wordCount,
+    areaTerms: findAreaKeywords(area).filter(term => containsTerm(normalizedAnswer, term)),
+    competencyTerms: [...new Set(competencyKeywords.filter(term => containsTerm(normalizedAnswer, term)))],
+    star,
+    enumerations: normalizedAnswer.match(ENUMERATION_PATTERN)?.length ?? 0,
+    reasoningMarkers: normalizedAnswer.match(REASONING_PATTERN)?.length ?? 0,
+    hasNumbers: /\d/.test(answer),
+    repeatedWords,
+    relevance: overlap(contentWords(`${question.text} ${question.competency}`), answerStems),
+    coveredKeyPoints: keyPointsCovered,
+    missingKeyPoints: question.expectedKeyPoints.filter(point => !keyPointsCovered.includes(point)),
+  };
+}
+
+const clamp = (score: number) => Math.round(Math.min(Math.max(score, 10), 95));
+
+function lengthScore(wordCount: number): number {
+  if (wordCount < 15) return 25;
+  if (wordCount < 40) return 50;
+  if (wordCount <= 250) return 80;
+  if (wordCount <= 400) return 70;
+  return 55;
+}
+
+function scoreCriteria(signals: AnswerSignals, question: InterviewQuestion): CriterionScore[] {
+  const starCount = Object.values(signals.star).filter(Boolean).length;
+  const keyPointRatio = question.expectedKeyPoints.length > 0
+    ? signals.coveredKeyPoints.length / question.expectedKeyPoints.length
+    : undefined;
+  const repetitionPenalty = Math.min(signals.repeatedWords.length * 8, 25);
+  const sentencePenalty = signals.averageSentenceLength > 35 ? 15 : signals.averageSentenceLength < 5 ? 10 : 0;
+
+  const scores: Record<CriterionKey, { score: number; justification: string }> = {
+    clarity: {
+      score: clamp(70 - sentencePenalty - repetitionPenalty + Math.min(signals.enumerations * 5, 15)),
+      justification: signals.averageSentenceLength > 35
+        ? `Frases com ${Math.round(signals.averageSentenceLength)} palavras em média dificultam a leitura.`
+        : sentencePenalty > 0
+          ? 'Frases muito curtas e soltas, sem ligar as ideias.'
+          : signals.enumerations > 0
+            ? 'Ideias organizadas com marcadores de sequência.'
+            : 'Frases com extensão adequada, sem marcadores de estrutura.',
+    },
+    technicalKnowledge: {
+      score: clamp(35 + Math.min(signals.areaTerms.length * 10, 35) + Math.min(signals.competencyTerms.length * 5, 15)
+        + (keyPointRatio !== undefined ? keyPointRatio * 15 : 0)),
+      justification: signals.areaTerms.length > 0
+        ? `Usa vocabulário da área: ${signals.areaTerms.slice(0, 4).join(', ')}.`
+        : 'Não usa termos específicos da área.',
+    },
+    examples: {
+      score: clamp(30 + starCount * 13 + (signals.hasNumbers ? 10 : 0)),
+      justification: starCount >= 3
+        ? 'Exemplo concreto com contexto, ações e resultado.'
+        : signals.star.action
+          ? 'Descreve ações, mas o exemplo está incompleto.'
+          : 'Sem um exemplo concreto da própria experiência.',
+    },
+    relevance: {
+      score: clamp(35 + signals.relevance * 25 + (keyPointRatio !== undefined ? keyPointRatio * 40 : signals.relevance * 20)),
+      justification: keyPointRatio !== undefined
+        ? `Cobre ${signals.coveredKeyPoints.length} de ${question.expectedKeyPoints.length} pontos-chave esperados.`
+        : `${Math.round(signals.relevance * 100)}% dos termos da pergunta aparecem na resposta.`,
+    },
+    communication: {
+      score: clamp(lengthScore(signals.wordCount) - repetitionPenalty / 2 + Math.min(signals.reasoningMarkers * 3, 10)),
+      justification: signals.wordCount < 40
+        ? `Resposta curta (${signals.wordCount} palavras) para uma entrevista.`
+        : signals.wordCount > 400
+          ? `Resposta longa (${signals.wordCount} palavras); arrisca perder o entrevistador.`
+          : `Extensão adequada (${signals.wordCount} palavras).`,
+    },
+    depth: {
+      score: clamp(30 + Math.min(signals.reasoningMarkers * 8, 30) + Math.min(signals.wordCount / 8, 20)
+        + (keyPointRatio !== undefined ? keyPointRatio * 15 : 5)),
+      justification: signals.reasoningMarkers > 0
+        ? 'Justifica as escolhas (porquês, alternativas ou impacto).'
+        : 'Descreve o quê, mas não explica o porquê das decisões.',
+    },
+  };
+
+  return (Object.keys(scores) as CriterionKey[]).map(criterion => ({ criterion, ...scores[criterion] }));
+}
+
+function buildStrengths(signals: AnswerSignals): string[] {
+  const strengths: string[] = [];
+  if (signals.coveredKeyPoints.length > 0) strengths.push(`Abordou pontos-chave: ${signals.coveredKeyPoints.join('; ')}`);
+  if (signals.star.situation && signals.star.action && signals.star.result) strengths.push('Exemplo completo: contexto, o que fez e o resultado');
+  if (signals.hasNumbers && signals.star.result) strengths.push('Quantificou o resultado com números');
+  if (signals.areaTerms.length >= 2) strengths.push(`Domínio do vocabulário da área (${signals.areaTerms.slice(0, 3).join(', ')})`);
+  if (signals.enumerations >= 2) strengths.push('Resposta organizada em passos ou tópicos');
+  if (signals.reasoningMarkers >= 2) strengths.push('Explica o raciocínio por trás das decisões');
+  return strengths.length > 0 ? strengths.slice(0, 3) : ['Resposta direta, sem rodeios'];
+}
+
+function buildImprovements(signals: AnswerSignals): string[] {
+  const improvements: string[] = [];
+  if (signals.missingKeyPoints.length > 0) improvements.push(`Faltou abordar: ${signals.missingKeyPoints.join('; ')}`);
+  if (!signals.star.situation || !signals.star.action) improvements.push('Inclua um exemplo real: a situação e o que fez, na primeira pessoa');
+  else if (!signals.star.result) improvements.push('Termine o exemplo com o resultado obtido (de preferência com números)');
+  if (signals.wordCount < 40) improvements.push('Desenvolva mais a resposta: 2 a 3 frases não chegam para mostrar competência');
+  if (signals.wordCount > 400) improvements.push('Seja mais conciso: foque no essencial e corte detalhes secundários');
+  if (signals.repeatedWords.length > 0) improvements.push(`Evite repetir "${signals.repeatedWords.slice(0, 2).join('", "')}"; varie o vocabulário`);
+  if (signals.relevance < 0.1 && signals.coveredKeyPoints.length === 0) improvements.push('Ligue a resposta mais diretamente ao que foi perguntado');
+  if (signals.areaTerms.length === 0) improvements.push('Use termos técnicos da área para mostrar conhecimento específico');
+  if (signals.reasoningMarkers === 0) improvements.push('Explique porque tomou cada decisão e que alternativas considerou');
+  return improvements.length > 0 ? improvements.slice(0, 3) : ['Acrescente um segundo exemplo para reforçar a resposta'];
+}
+
+// Feedback completo sem IA; a pontuação final é calculada pelos pesos da rubrica, como na avaliação da IA
+function evaluateOffline(
+  question: InterviewQuestion,
+  answer: string,
+  area: string,
+  requiredSkills: string[] = []
+): FeedbackPayload {
+  if (!answer.trim()) {
+    return {
+      criteria: [],
+      strengths: [],
+      improvements: ['Responda à pergunta para receber feedback'],
+      overall: 'Avaliação offline: resposta vazia.',
+      demonstratedSkills: [],
+    };
+  }
+
+  const signals = analyzeAnswer(question, answer, area);
+  const criteria = scoreCriteria(signals, question);
+  const weakest = [...criteria].sort((a, b) => a.score - b.score)[0];
+
+  return {
+    criteria,
+    strengths: buildStrengths(signals),
+    improvements: buildImprovements(signals),
+    overall: weakest.score >= 70
+      ? 'Avaliação offline (sem IA), baseada em heurísticas locais. Resposta equilibrada em todos os critérios da rubrica.'
+      : `Avaliação offline (sem IA), baseada em heurísticas locais. Critério a trabalhar primeiro — ${getCriterionLabel(weakest.criterion)}: ${weakest.justification}`,
+    demonstratedSkills: matchSkillsInText(answer, requiredSkills),
+  };
+}
+
+export { evaluateOffline };
@@ -0,0 +1,325 @@
+import type { InterviewQuestion, QuestionCategory, QuestionDifficulty } from './questions';
+import { rankByNovelty } from './similarity';
+import { normalizeText } from './text';
+
+// Banco local de perguntas (área × nível × categoria) usado sem IA e como exemplos para o gerador
+
+type ExperienceTier = 'entry' | 'mid' | 'senior';
+
+interface BankQuestion extends InterviewQuestion {
+  // Níveis de experiência a que a pergunta se adequa
+  tiers: ExperienceTier[];
+}
+
+const ALL_TIERS: ExperienceTier[] = ['entry', 'mid', 'senior'];
+
+const entry = (
+  tiers: ExperienceTier[],
+  category: QuestionCategory,
+  difficulty: QuestionDifficulty,
+  competency: string,
+  text: string,
+  expectedKeyPoints: string[]
+): BankQuestion => ({ tiers, category, difficulty, competency, text, expectedKeyPoints });
+
+// Perguntas válidas para qualquer área
+const GENERIC_QUESTIONS: BankQuestion[] = [
+  entry(ALL_TIERS, 'intro', 'easy', 'Apresentação pessoal',
+    'Fale-me um pouco sobre si e sobre o seu percurso profissional até aqui.',
+    ['Percurso resumido', 'Experiência mais relevante para a vaga', 'O que procura agora']),
+  entry(['mid', 'senior'], 'intro', 'easy', 'Apresentação pessoal',
+    'De que projeto ou conquista profissional se orgulha mais e porquê?',
+    ['Contexto do projeto', 'O seu papel', 'Impacto gerado']),
+  entry(['entry'], 'behavioral', 'easy', 'Aprendizagem contínua',
+    'Conte-me sobre algo que teve de aprender rapidamente. Como o fez?',
+    ['O que precisava de aprender', 'Estratégia de estudo', 'Como aplicou o que aprendeu']),
+  entry(['entry', 'mid'], 'behavioral', 'medium', 'Trabalho em equipa',
+    'Descreva uma situação em que trabalhou com alguém com um estilo muito diferente do seu.',
+    ['Diferenças de estilo', 'Como se adaptou', 'Resultado da colaboração']),
+  entry(ALL_TIERS, 'behavioral', 'medium', 'Receção de feedback',
+    'Fale de um feedback difícil que recebeu. O que mudou depois disso?',
+    ['O feedback recebido', 'Reação inicial', 'Mudança concreta de comportamento']),
+  entry(['mid', 'senior'], 'behavioral', 'medium', 'Gestão de conflitos',
+    'Conte uma situação em que discordou de uma decisão da sua chefia ou da equipa. Como lidou com isso?',
+    ['Motivo da discordância', 'Como expôs a sua posição', 'Desfecho e aprendizagem']),
+  entry(['senior'], 'behavioral', 'hard', 'Liderança',
+    'Como desenvolveu alguém da sua equipa que estava com baixo desempenho?',
+    ['Diagnóstico da causa', 'Plano de acompanhamento', 'Evolução observada']),
+  entry(ALL_TIERS, 'behavioral', 'easy', 'Motivação',
+    'Porque está interessado nesta posição e o que espera aprender nela?',
+    ['Interesse na função', 'Ligação com o percurso', 'Objetivos de desenvolvimento']),
+  entry(['entry', 'mid'], 'situational', 'medium', 'Gestão de prioridades',
+    'Se recebesse três tarefas urgentes ao mesmo tempo de pessoas diferentes, como decidiria por onde começar?',
+    ['Critérios de priorização', 'Comunicação com os pedidos', 'Renegociação de prazos']),
+  entry(ALL_TIERS, 'situational', 'medium', 'Resolução de problemas',
+    'Descreva um problema difícil que resolveu no trabalho ou nos estudos. Como chegou à solução?',
+    ['Contexto do problema', 'Abordagem escolhida', 'Resultado obtido']),
+  entry(['mid', 'senior'], 'situational', 'hard', 'Gestão de erros',
+    'Imagine que descobre, na véspera de uma entrega importante, um erro grave no seu trabalho. O que faz?',
+    ['Avaliação do impacto', 'Comunicação transparente', 'Plano de correção e prevenção']),
+  entry(['senior'], 'situational', 'hard', 'Influência',
+    'Como convenceria uma área resistente a adotar uma mudança que considera essencial?',
+    ['Entender as objeções', 'Dados e argumentos', 'Piloto ou compromisso gradual']),
+];
+
+// Perguntas específicas das áreas do setup (mesmos nomes que em InterviewSetup)
+const AREA_QUESTIONS: Record<string, BankQuestion[]> = {
+  'Tecnologia da Informação': [
+    entry(['entry'], 'technical', 'easy', 'Fundamentos de programação',
+      'Explique a diferença entre uma variável passada por valor e por referência, com um exemplo.',
+      ['Definição de cada caso', 'Exemplo numa linguagem que conhece', 'Impacto em bugs comuns']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Versionamento e colaboração',
+      'Como organiza o seu trabalho com Git numa equipa? Que fluxo de branches já usou?',
+      ['Fluxo de branches', 'Pull requests e code review', 'Resolução de conflitos']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Design de APIs',
+      'Como desenharia uma API REST para um recurso com milhares de registos?',
+      ['Recursos e verbos HTTP', 'Paginação e filtros', 'Versionamento e erros']),
+    entry(['senior'], 'technical', 'hard', 'Arquitetura de sistemas',
+      'Quando faz sentido dividir um monólito em microserviços, e quando não faz?',
+      ['Critérios de decisão', 'Custos operacionais', 'Estratégia de migração gradual']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Depuração',
+      'Um utilizador reporta um erro que não consegue reproduzir. Como investigaria?',
+      ['Recolha de informação', 'Logs e monitorização', 'Hipóteses e testes']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Gestão de incidentes',
+      'O sistema em produção ficou lento depois de um deploy. Quais seriam os seus primeiros passos?',
+      ['Mitigação imediata (rollback)', 'Métricas e análise da causa', 'Post-mortem e prevenção']),
+  ],
+  'Marketing Digital': [
+    entry(['entry'], 'technical', 'easy', 'Fundamentos de marketing digital',
+      'Qual a diferença entre tráfego orgânico e pago, e quando investiria em cada um?',
+      ['Definição de cada canal', 'Custos e prazos', 'Exemplo de combinação']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Análise de métricas',
+      'Que métricas acompanharia numa campanha de geração de leads e porquê?',
+      ['CTR, CPC e CPL', 'Taxa de conversão', 'Ligação com o objetivo de negócio']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Otimização de conversão',
+      'Como estruturaria um teste A/B para aumentar a conversão de uma landing page?',
+      ['Hipótese clara', 'Amostra e duração', 'Critério de decisão']),
+    entry(['senior'], 'technical', 'hard', 'Estratégia de marketing',
+      'Como distribuiria um orçamento anual de marketing entre canais para uma marca em crescimento?',
+      ['Objetivos e funil', 'Dados históricos e ROI', 'Reserva para testes']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Gestão de campanhas',
+      'Uma campanha está a gastar o orçamento sem gerar conversões. O que faria?',
+      ['Diagnóstico por etapa do funil', 'Ajustes de segmentação e criativos', 'Decisão de pausar ou realocar']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Gestão de crise',
+      'Uma publicação da marca gerou uma onda de comentários negativos. Como reagiria?',
+      ['Avaliação rápida da gravidade', 'Resposta pública e tom', 'Alinhamento interno']),
+  ],
+  'Recursos Humanos': [
+    entry(['entry'], 'technical', 'easy', 'Recrutamento e seleção',
+      'Quais são as etapas de um processo de recrutamento bem estruturado?',
+      ['Levantamento do perfil', 'Triagem e entrevistas', 'Feedback aos candidatos']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Onboarding',
+      'Como desenharia o onboarding dos primeiros 90 dias de um novo colaborador?',
+      ['Preparação antes da entrada', 'Marcos e acompanhamento', 'Avaliação do processo']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Retenção de talento',
+      'Que indicadores usaria para perceber se a empresa tem um problema de retenção?',
+      ['Turnover voluntário', 'Entrevistas de saída', 'Clima e engagement']),
+    entry(['senior'], 'technical', 'hard', 'Estratégia de pessoas',
+      'Como montaria um modelo de avaliação de desempenho justo para uma empresa em rápido crescimento?',
+      ['Critérios e competências', 'Calibração entre gestores', 'Ligação com desenvolvimento e remuneração']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Mediação de conflitos',
+      'Dois colegas de equipa estão em conflito e isso afeta o trabalho. Como interviria?',
+      ['Ouvir as partes separadamente', 'Mediação com foco em factos', 'Acompanhamento posterior']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Comunicação de mudanças',
+      'A empresa vai reestruturar uma área. Como planearia a comunicação aos colaboradores?',
+      ['Sequência e canais', 'Transparência e apoio', 'Gestão de perguntas difíceis']),
+  ],
+  'Vendas': [
+    entry(['entry'], 'technical', 'easy', 'Processo comercial',
+      'Descreva as etapas de um processo de venda, da prospeção ao fecho.',
+      ['Prospeção e qualificação', 'Apresentação e proposta', 'Negociação e fecho']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Tratamento de objeções',
+      'Como responde a um cliente que diz que o seu produto é caro?',
+      ['Entender a objeção', 'Valor versus preço', 'Alternativas sem baixar o preço logo']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Gestão de pipeline',
+      'Como organiza e prioriza o seu pipeline para garantir a meta do trimestre?',
+      ['Qualificação das oportunidades', 'Uso de CRM', 'Previsão (forecast)']),
+    entry(['senior'], 'technical', 'hard', 'Vendas complexas',
+      'Como conduz uma venda B2B com vários decisores e um ciclo longo?',
+      ['Mapeamento de decisores', 'Plano de conta', 'Gestão do ritmo do ciclo']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Resiliência comercial',
+      'Está a meio do mês muito abaixo da meta. O que faz nas próximas duas semanas?',
+      ['Análise do pipeline', 'Ações de curto prazo', 'Pedido de apoio']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Retenção de clientes',
+      'Um cliente importante ameaça cancelar o contrato. Como tentaria recuperá-lo?',
+      ['Entender o motivo real', 'Plano de recuperação', 'Compromissos e acompanhamento']),
+  ],
+  'Finanças': [
+    entry(['entry'], 'technical', 'easy', 'Demonstrações financeiras',
+      'Qual a diferença entre lucro e fluxo de caixa? Porque é que uma empresa lucrativa pode ficar sem caixa?',
+      ['Regime de competência versus caixa', 'Prazos de recebimento e pagamento', 'Exemplo prático']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Análise financeira',
+      'Que indicadores usaria para avaliar a saúde financeira de uma empresa?',
+      ['Liquidez', 'Rentabilidade e margens', 'Endividamento']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Orçamento e controlo',
+      'Como conduziria um processo de orçamento anual e o acompanhamento do realizado?',
+      ['Premissas e envolvimento das áreas', 'Análise de desvios', 'Revisões (forecast)']),
+    entry(['senior'], 'technical', 'hard', 'Avaliação de investimentos',
+      'Como avaliaria se um novo investimento de capital vale a pena?',
+      ['Fluxos de caixa projetados', 'VPL, TIR e payback', 'Análise de sensibilidade e risco']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Rigor e controlo',
+      'Encontra uma diferença inexplicável numa conciliação no fecho do mês. O que faz?',
+      ['Investigação sistemática', 'Escalamento a tempo', 'Documentação e prevenção']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Comunicação financeira',
+      'Tem de explicar à direção por que razão os resultados ficaram muito abaixo do orçamento. Como prepara essa conversa?',
+      ['Causas com dados', 'Impacto e tendências', 'Plano de ação proposto']),
+  ],
+  'Design': [
+    entry(['entry'], 'technical', 'easy', 'Fundamentos de design',
+      'Que princípios de design visual aplica para criar uma hierarquia clara numa página?',
+      ['Tipografia e tamanhos', 'Contraste e cor', 'Espaçamento e alinhamento']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Pesquisa com utilizadores',
+      'Como validaria com utilizadores se um novo fluxo de compra está a funcionar?',
+      ['Testes de usabilidade', 'Métricas de comportamento', 'Iteração com base nos resultados']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Design systems',
+      'Que benefícios e desafios traz um design system, e como o manteria atualizado?',
+      ['Consistência e velocidade', 'Governança', 'Colaboração com desenvolvimento']),
+    entry(['senior'], 'technical', 'hard', 'Estratégia de produto',
+      'Como mede o impacto do design nos resultados do negócio?',
+      ['Métricas de produto', 'Ligação com objetivos', 'Exemplo de decisão baseada em dados']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Receção de críticas',
+      'Um stakeholder rejeita a sua proposta com base apenas no gosto pessoal. Como reage?',
+      ['Entender a preocupação real', 'Argumentos com pesquisa', 'Proposta de teste']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Priorização em design',
+      'Tem pouco tempo para redesenhar um ecrã crítico. Como decide o que muda primeiro?',
+      ['Dados de uso e dores', 'Impacto versus esforço', 'Plano de iterações']),
+  ],
+  'Engenharia': [
+    entry(['entry'], 'technical', 'easy', 'Fundamentos de engenharia',
+      'Como garante que um cálculo ou especificação técnica está correto antes de o entregar?',
+      ['Verificação das premissas', 'Normas aplicáveis', 'Revisão por pares']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Qualidade e processos',
+      'Que ferramentas de análise de causa raiz conhece e quando as usaria?',
+      ['5 porquês', 'Diagrama de Ishikawa', 'Ação corretiva e verificação']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Gestão técnica de projetos',
+      'Como equilibra custo, prazo e qualidade num projeto de engenharia?',
+      ['Análise de trade-offs', 'Gestão de riscos', 'Comunicação com o cliente']),
+    entry(['senior'], 'technical', 'hard', 'Melhoria contínua',
+      'Como lideraria um programa de melhoria contínua numa linha de produção ou operação?',
+      ['Diagnóstico e indicadores', 'Envolvimento das equipas', 'Sustentação dos ganhos']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Segurança',
+      'Deteta uma situação insegura numa obra ou fábrica, mas o prazo está apertado. O que faz?',
+      ['Prioridade à segurança', 'Comunicação imediata', 'Solução e registo']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Resolução de falhas',
+      'Um equipamento crítico falhou e a produção parou. Como conduz a resposta?',
+      ['Contenção imediata', 'Diagnóstico da causa', 'Prevenção de recorrência']),
+  ],
+  'Consultoria': [
+    entry(['entry'], 'technical', 'easy', 'Pensamento estruturado',
+      'Como estruturaria a análise de um problema de negócio que nunca viu antes?',
+      ['Decomposição do problema', 'Hipóteses', 'Dados necessários']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Análise de dados',
+      'Um cliente viu as vendas caírem 20% num ano. Que hipóteses investigaria primeiro?',
+      ['Mercado versus empresa', 'Preço, volume e mix', 'Priorização das hipóteses']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Comunicação executiva',
+      'Como prepara uma apresentação de recomendações para a administração de um cliente?',
+      ['Mensagem principal primeiro', 'Evidências', 'Próximos passos claros']),
+    entry(['senior'], 'technical', 'hard', 'Gestão de mudança',
+      'Como garante que as recomendações de um projeto são de facto implementadas pelo cliente?',
+      ['Envolvimento dos decisores', 'Plano de implementação', 'Indicadores de acompanhamento']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Gestão de expectativas',
+      'O cliente pede uma análise adicional que não estava no escopo e o prazo é curto. O que faz?',
+      ['Avaliar o impacto', 'Negociar escopo ou prazo', 'Alinhar com a equipa']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Relacionamento com o cliente',
+      'O patrocinador do projeto discorda fortemente das suas conclusões. Como conduz a conversa?',
+      ['Ouvir e entender', 'Rever as evidências', 'Encontrar caminho comum']),
+  ],
+  'Gestão de Projetos': [
+    entry(['entry'], 'technical', 'easy', 'Fundamentos de gestão de projetos',
+      'Que informação inclui no planeamento inicial de um projeto?',
+      ['Escopo e objetivos', 'Cronograma e marcos', 'Riscos e stakeholders']),
+    entry(['entry', 'mid'], 'technical', 'medium', 'Metodologias ágeis',
+      'Quando usaria uma abordagem ágil e quando uma abordagem mais tradicional (cascata)?',
+      ['Grau de incerteza', 'Envolvimento do cliente', 'Exemplo de cada caso']),
+    entry(['mid', 'senior'], 'technical', 'medium', 'Gestão de riscos',
+      'Como identifica, prioriza e acompanha os riscos de um projeto?',
+      ['Identificação com a equipa', 'Probabilidade e impacto', 'Planos de resposta e dono de cada risco']),
+    entry(['senior'], 'technical', 'hard', 'Gestão de portfólio',
+      'Como decide que projetos priorizar quando há mais pedidos do que capacidade?',
+      ['Critérios de valor e esforço', 'Alinhamento estratégico', 'Comunicação das escolhas']),
+    entry(['entry', 'mid'], 'situational', 'medium', 'Gestão de prazos',
+      'O projeto está duas semanas atrasado a um mês da entrega. O que faz?',
+      ['Diagnóstico das causas', 'Opções (escopo, recursos, prazo)', 'Comunicação aos stakeholders']),
+    entry(['mid', 'senior'], 'situational', 'hard', 'Gestão de stakeholders',
+      'Dois patrocinadores do projeto pedem prioridades contraditórias. Como resolve?',
+      ['Tornar o conflito explícito', 'Dados de impacto', 'Decisão e registo']),
+  ],
+};
+
+// Perguntas técnicas genéricas para áreas fora da lista ("Outro" ou texto livre)
+const GENERIC_TECHNICAL: BankQuestion[] = [
+  entry(['entry', 'mid'], 'technical', 'medium', 'Competências técnicas',
+    'Quais são as suas principais competências técnicas e como as aplicou num projeto recente?',
+    ['Competências concretas', 'Exemplo de aplicação', 'Resultado obtido']),
+  entry(['mid', 'senior'], 'technical', 'medium', 'Métodos de trabalho',
+    'Que ferramentas e métodos usa no dia a dia para garantir a qualidade do seu trabalho?',
+    ['Ferramentas concretas', 'Processo de verificação', 'Exemplo de erro evitado']),
+  entry(['senior'], 'technical', 'hard', 'Visão da área',
+    'Que tendências vão mudar a sua área nos próximos anos e como se está a preparar?',
+    ['Tendências concretas', 'Impacto na função', 'Ações de preparação']),
+];
+
+const normalize = (value: string) => normalizeText(value).trim();
+
+// Níveis de experiência do setup ("Júnior (0-2 anos)", "Sénior (6-10 anos)"...)
+function toExperienceTier(experienceLevel: string): ExperienceTier {
+  const level = normalize(experienceLevel);
+  if (/estagi|junior|trainee/.test(level)) return 'entry';
+  if (/senior|especialista|lead|principal/.test(level)) return 'senior';
+  return 'mid';
+}
+
+function findAreaQuestions(area: string): BankQuestion[] {
+  const normalizedArea = normalize(area);
+  const match = Object.entries(AREA_QUESTIONS).find(([name]) => normalize(name) === normalizedArea);
+  return match?.[1] ?? GENERIC_TECHNICAL;
+}
+
+const stripTiers = ({ tiers: _tiers, ...question }: BankQuestion): InterviewQuestion => question;
+
+// Todas as perguntas do banco adequadas à área e ao nível
+function getQuestionPool(area: string, experienceLevel: string): InterviewQuestion[] {
+  const tier = toExperienceTier(experienceLevel);
+  return [...findAreaQuestions(area), ...GENERIC_QUESTIONS]
+    .filter(question => question.tiers.includes(tier))
+    .map(stripTiers);
+}
+
+// Ordem de entrevista: apresentação primeiro e depois categorias alternadas
+const CATEGORY_ROTATION: QuestionCategory[] = ['technical', 'behavioral', 'situational', 'technical'];
+
+function arrangeInterview(pool: InterviewQuestion[], count: number): InterviewQuestion[] {
+  const remaining = [...pool];
+  const take = (category: QuestionCategory) => {
+    const index = remaining.findIndex(question => question.category === category);
+    return index >= 0 ? remaining.splice(index, 1)[0] : undefined;
+  };
+
+  const selected: InterviewQuestion[] = [];
+  const intro = take('intro');
+  if (intro) selected.push(intro);
+
+  let turn = 0;
+  while (selected.length < count && remaining.length > 0) {
+    const next = take(CATEGORY_ROTATION[turn % CATEGORY_ROTATION.length]) ?? remaining.shift();
+    if (next.category !== 'intro') selected.push(next);
+    turn++;
+  }
+
+  return selected;
+}
+
+// Entrevista completa a partir do banco (sem IA), preferindo perguntas que ainda não foram feitas
+function getBankQuestions(area: string, experienceLevel: string, count: number, askedBefore: string[] = []): InterviewQuestion[] {
+  return arrangeInterview(rankByNovelty(getQuestionPool(area, experienceLevel), askedBefore), count);
+}
+
+// Poucos exemplos da área e nível, para orientar o tom e a dificuldade das perguntas geradas pela IA
+function getSeedExamples(area: string, experienceLevel: string, limit = 3): InterviewQuestion[] {
+  return getQuestionPool(area, experienceLevel)
+    .filter(question => question.category !== 'intro')
+    .slice(0, limit);
+}
+
+export { getBankQuestions, getSeedExamples, toExperienceTier };
+export type { ExperienceTier };
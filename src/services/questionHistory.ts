@@ -0,0 +1,48 @@
+import { toExperienceTier } from './questionBank';
+import { createLogger } from './logger';
+
+const log = createLogger('question-history');
+
+// Histórico local das perguntas já feitas, por área e nível, para não repetir perguntas entre sessões
+
+const QUESTION_HISTORY_STORAGE_KEY = 'talk-skill-ai:question-history';
+
+// Guardamos só as mais recentes de cada área/nível
+const MAX_QUESTIONS_PER_KEY = 200;
+
+type QuestionHistory = Record<string, string[]>;
+
+const historyKey = (area: string, experienceLevel: string) =>
+  `${area.trim().toLowerCase()}|${toExperienceTier(experienceLevel)}`;
+
+function readHistory(): QuestionHistory {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(QUESTION_HISTORY_STORAGE_KEY) : null;
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as QuestionHistory : {};
+  } catch (error) {
+    log.warn('Histórico de perguntas inválido no armazenamento local. Ignorando.', error);
+    return {};
+  }
+}
+
+// Perguntas já feitas nesta área/nível, da mais antiga para a mais recente
+function getAskedQuestions(area: string, experienceLevel: string): string[] {
+  const asked = readHistory()[historyKey(area, experienceLevel)];
+  return Array.isArray(asked) ? asked.filter(text => typeof text === 'string') : [];
+}
+
+function recordAskedQuestion(area: string, experienceLevel: string, text: string) {
+  const history = readHistory();
+  const key = historyKey(area, experienceLevel);
+  const asked = (Array.isArray(history[key]) ? history[key] : []).filter(existing => existing !== text);
+
+  history[key] = [...asked, text].slice(-MAX_QUESTIONS_PER_KEY);
+  try {
+    localStorage.setItem(QUESTION_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    log.error('Erro ao guardar histórico de perguntas:', error);
+  }
+}
+
+export { getAskedQuestions, recordAskedQuestion };
@@ -0,0 +1,79 @@
+import { normalizeText } from './text';
+
+// Modelo das perguntas de entrevista geradas pela IA (ou pelo fallback local)
+
+type QuestionCategory = 'intro' | 'technical' | 'behavioral' | 'situational' | 'followup';
+
+type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+interface InterviewQuestion {
+  text: string;
+  category: QuestionCategory;
+  // Competência que a pergunta pretende avaliar (ex.: "Comunicação", "Modelagem de dados")
+  competency: string;
+  difficulty: QuestionDifficulty;
+  // Pontos que uma boa resposta deveria abordar
+  expectedKeyPoints: string[];
+}
+
+const QUESTION_CATEGORIES: [QuestionCategory, ...QuestionCategory[]] = ['intro', 'technical', 'behavioral', 'situational', 'followup'];
+
+const QUESTION_DIFFICULTIES: [QuestionDifficulty, ...QuestionDifficulty[]] = ['easy', 'medium', 'hard'];
+
+const CATEGORY_LABELS: Record<QuestionCategory, string> = {
+  intro: 'Apresentação',
+  technical: 'Técnica',
+  behavioral: 'Comportamental',
+  situational: 'Situacional',
+  followup: 'Follow-up',
+};
+
+const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Fácil',
+  medium: 'Média',
+  hard: 'Difícil',
+};
+
+const normalizeWord = (value: string) => normalizeText(value).replace(/[^a-z]/g, '');
+
+// Sinónimos em português que o modelo costuma devolver apesar das instruções
+const CATEGORY_ALIASES: Record<string, QuestionCategory> = {
+  apresentacao: 'intro',
+  introducao: 'intro',
+  tecnica: 'technical',
+  comportamental: 'behavioral',
+  situacional: 'situational',
+  followup: 'followup',
+  aprofundamento: 'followup',
+};
+
+const DIFFICULTY_ALIASES: Record<string, QuestionDifficulty> = {
+  facil: 'easy',
+  media: 'medium',
+  medio: 'medium',
+  intermediaria: 'medium',
+  dificil: 'hard',
+  avancada: 'hard',
+};
+
+function normalizeCategory(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const word = normalizeWord(value);
+  return CATEGORY_ALIASES[word] ?? word;
+}
+
+function normalizeDifficulty(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const word = normalizeWord(value);
+  return DIFFICULTY_ALIASES[word] ?? word;
+}
+
+export {
+  QUESTION_CATEGORIES,
+  QUESTION_DIFFICULTIES,
+  CATEGORY_LABELS,
+  DIFFICULTY_LABELS,
+  normalizeCategory,
+  normalizeDifficulty,
+};
+export type { InterviewQuestion, QuestionCategory, QuestionDifficulty };
@@ -0,0 +1,195 @@
+import { createLogger } from './logger';
+
+// Ocultação de dados pessoais antes de enviar texto ao provider de LLM
+
+const log = createLogger('redaction');
+
+type RedactionKind = 'email' | 'phone' | 'document' | 'url' | 'name';
+
+interface RedactionSettings {
+  enabled: boolean;
+  emails: boolean;
+  phones: boolean;
+  // CPF (Brasil) e NIF (Portugal), validados pelo dígito de controlo
+  documents: boolean;
+  urls: boolean;
+  // Nomes mantidos pelo utilizador (empresas, colegas, clientes...)
+  names: string[];
+}
+
+const REDACTION_STORAGE_KEY = 'talk-skill-ai:redaction';
+
+const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  emails: true,
+  phones: true,
+  documents: true,
+  urls: true,
+  names: [],
+};
+
+const PLACEHOLDER_LABELS: Record<RedactionKind, string> = {
+  email: 'EMAIL',
+  phone: 'TELEFONE',
+  document: 'DOCUMENTO',
+  url: 'URL',
+  name: 'NOME',
+};
+
+function getRedactionSettings(): RedactionSettings {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(REDACTION_STORAGE_KEY) : null;
+    if (!stored) return DEFAULT_REDACTION_SETTINGS;
+
+    const overrides: Partial<RedactionSettings> = JSON.parse(stored);
+    return {
+      ...DEFAULT_REDACTION_SETTINGS,
+      ...overrides,
+      names: Array.isArray(overrides.names) ? overrides.names.filter(name => typeof name === 'string') : [],
+    };
+  } catch (error) {
+    log.warn('Configuração de privacidade inválida no armazenamento local. Usando valores padrão.', error);
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+function saveRedactionSettings(settings: RedactionSettings | null): void {
+  if (settings) {
+    localStorage.setItem(REDACTION_STORAGE_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(REDACTION_STORAGE_KEY);
+  }
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+function isValidCPF(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false;
+
+  const checkDigit = (length: number) => {
+    const sum = [...digits.slice(0, length)].reduce((total, digit, index) => total + Number(digit) * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+}
+
+function isValidNIF(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 9 || !/^[1235689]/.test(digits)) return false;
+
+  const sum = [...digits.slice(0, 8)].reduce((total, digit, index) => total + Number(digit) * (9 - index), 0);
+  const check = 11 - (sum % 11);
+  return (check >= 10 ? 0 : check) === Number(digits[8]);
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s"'<>\\]+[^\s"'<>\\.,;:!?)]/gi;
+const DOCUMENT_PATTERN = /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b|\b\d{9}\b/g;
+// Só números com forma de telefone, para não apanhar anos, intervalos ("2019-2023") ou referências soltas
+const PHONE_PATTERN = new RegExp([
+  // Indicativo internacional: +351 912 345 678, +55 (11) 91234-5678
+  /\+\d{1,3}[\s.-]?(?:\(\d{1,3}\)[\s.-]?)?\d{2,5}(?:[\s.-]?\d{2,5}){1,3}/.source,
+  // Indicativo regional entre parênteses: (11) 91234-5678
+  /\(\d{2,3}\)[\s.-]?\d{4,5}[\s.-]?\d{4}\b/.source,
+  // Grupos 4-4 ou 5-4, com indicativo opcional (11 91234-5678), exceto intervalos de anos
+  /\b(?:\d{2}[\s.-])?(?!(?:19|20)\d{2}[\s.-](?:19|20)\d{2}\b)\d{4,5}[\s.-]\d{4}\b/.source,
+  // Portugal: 912 345 678, 21 123 4567 ou os 9 dígitos seguidos (começam por 2 ou 9)
+  /\b[29]\d{2}[\s.-]\d{3}[\s.-]\d{3}\b/.source,
+  /\b2\d[\s.-]\d{3}[\s.-]\d{4}\b/.source,
+  /\b[29]\d{8}\b/.source,
+  // Brasil: DDD (sem zeros) seguido de 8 ou 9 dígitos, tudo junto: 11912345678, 2134567890
+  /\b[1-9]{2}9?\d{8}\b/.source,
+].join('|'), 'g');
+
+// Partículas dos nomes compostos que não identificam ninguém sozinhas
+const NAME_PARTICLES = new Set(['da', 'das', 'de', 'del', 'di', 'do', 'dos', 'du', 'e', 'van', 'von']);
+
+// Nome completo e cada um dos seus nomes, para "Ana" também ser ocultado quando o candidato é "Ana Sousa"
+function getNameVariants(fullName: string): string[] {
+  const tokens = fullName.trim().split(/\s+/).filter(Boolean);
+  const names = tokens.filter(token => token.length > 1 && !NAME_PARTICLES.has(token.toLowerCase()));
+  return [...new Set([tokens.join(' '), ...names])].filter(Boolean);
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^$()|[\]{}\\/]/g, '\\$&');
+
+// Mantém a correspondência placeholder ↔ valor original durante a sessão, para repor o texto na UI
+class RedactionVault {
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters: Record<RedactionKind, number> = { email: 0, phone: 0, document: 0, url: 0, name: 0 };
+
+  private placeholderFor(kind: RedactionKind, original: string): string {
+    const key = `${kind}:${original.toLowerCase()}`;
+    const existing = this.placeholders.get(key);
+    if (existing) return existing;
+
+    this.counters[kind] += 1;
+    const placeholder = `[${PLACEHOLDER_LABELS[kind]}_${this.counters[kind]}]`;
+    this.placeholders.set(key, placeholder);
+    this.originals.set(placeholder, original);
+    return placeholder;
+  }
+
+  redact(text: string, settings: RedactionSettings, extraNames: string[] = []): string {
+    if (!settings.enabled || !text) return text;
+
+    let result = text;
+    if (settings.emails) {
+      result = result.replace(EMAIL_PATTERN, match => this.placeholderFor('email', match));
+    }
+    if (settings.urls) {
+      result = result.replace(URL_PATTERN, match => this.placeholderFor('url', match));
+    }
+    if (settings.documents) {
+      result = result.replace(DOCUMENT_PATTERN, match =>
+        isValidCPF(match) || isValidNIF(match) ? this.placeholderFor('document', match) : match);
+    }
+    if (settings.phones) {
+      // E.164 limita os números a 15 dígitos
+      result = result.replace(PHONE_PATTERN, match => {
+        const digitCount = digitsOf(match).length;
+        return digitCount >= 8 && digitCount <= 15 ? this.placeholderFor('phone', match) : match;
+      });
+    }
+
+    // Nomes mais longos primeiro, para "Ana Sousa" ganhar a "Ana"
+    const names = [...new Set([...settings.names, ...extraNames].map(name => name.trim()).filter(name => name.length > 1))]
+      .sort((a, b) => b.length - a.length);
+    for (const name of names) {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(name)}(?![\\p{L}\\p{N}])`, 'giu');
+      result = result.replace(pattern, match => this.placeholderFor('name', match));
+    }
+
+    return result;
+  }
+
+  // Em respostas JSON o placeholder está dentro de uma string, por isso o original vai escapado (aspas, barras...)
+  restore(text: string, insideJson = false): string {
+    if (this.originals.size === 0 || !text) return text;
+    return text.replace(/\[(?:EMAIL|TELEFONE|DOCUMENTO|URL|NOME)_\d+\]/g, placeholder => {
+      const original = this.originals.get(placeholder);
+      if (original === undefined) return placeholder;
+      return insideJson ? JSON.stringify(original).slice(1, -1) : original;
+    });
+  }
+
+  // Separa o texto em streaming na parte já restaurável e num possível placeholder ainda incompleto
+  splitRestorable(text: string): [ready: string, pending: string] {
+    const open = text.lastIndexOf('[');
+    if (open === -1 || text.indexOf(']', open) !== -1 || text.length - open > 16) {
+      return [text, ''];
+    }
+    return [text.slice(0, open), text.slice(open)];
+  }
+}
+
+export {
+  RedactionVault,
+  getNameVariants,
+  getRedactionSettings,
+  saveRedactionSettings,
+};
+export type { RedactionKind, RedactionSettings };
@@ -0,0 +1,93 @@
+import type { ConversationTurn } from './conversation';
+
+// Relatório final da entrevista (gerado pela IA, com versão local como fallback)
+
+type HiringVerdict = 'strong_hire' | 'hire' | 'lean_no_hire' | 'no_hire';
+
+interface CompetencyAssessment {
+  competency: string;
+  score: number;
+  assessment: string;
+}
+
+interface InterviewReportPayload {
+  verdict: HiringVerdict;
+  verdictRationale: string;
+  strengths: string[];
+  developmentAreas: string[];
+  competencies: CompetencyAssessment[];
+  practicePlan: string[];
+}
+
+const HIRING_VERDICTS: [HiringVerdict, ...HiringVerdict[]] = ['strong_hire', 'hire', 'lean_no_hire', 'no_hire'];
+
+const VERDICT_LABELS: Record<HiringVerdict, string> = {
+  strong_hire: 'Contratação fortemente recomendada',
+  hire: 'Contratação recomendada',
+  lean_no_hire: 'Ainda não recomendado',
+  no_hire: 'Não recomendado',
+};
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+}
+
+function verdictFromScore(score: number): HiringVerdict {
+  if (score >= 85) return 'strong_hire';
+  if (score >= 70) return 'hire';
+  if (score >= 55) return 'lean_no_hire';
+  return 'no_hire';
+}
+
+// Itens mais repetidos nos feedbacks individuais
+function mostFrequent(items: string[], limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    counts.set(item, (counts.get(item) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([item]) => item);
+}
+
+// Médias por competência avaliada nas perguntas
+function groupByCompetency(turns: ConversationTurn[]): { competency: string; score: number }[] {
+  const groups = new Map<string, number[]>();
+  for (const turn of turns) {
+    if (turn.score === undefined) continue;
+    const scores = groups.get(turn.question.competency) ?? [];
+    scores.push(turn.score);
+    groups.set(turn.question.competency, scores);
+  }
+  return [...groups.entries()].map(([competency, scores]) => ({ competency, score: average(scores) }));
+}
+
+// Relatório heurístico a partir das pontuações e dos feedbacks já recebidos
+function buildLocalReport(turns: ConversationTurn[]): InterviewReportPayload {
+  const strengths = turns.flatMap(turn => turn.strengths ?? []);
+  const improvements = turns.flatMap(turn => turn.improvements ?? []);
+  const answeredScores = turns.filter(turn => turn.score !== undefined).map(turn => turn.score);
+  const overallScore = average(answeredScores);
+  const competencies = groupByCompetency(turns).sort((a, b) => a.score - b.score);
+  const weakest = competencies.slice(0, 3);
+
+  return {
+    verdict: verdictFromScore(overallScore),
+    verdictRationale: `Pontuação média de ${overallScore}/100 em ${answeredScores.length} respostas. Relatório gerado localmente a partir das avaliações individuais.`,
+    strengths: mostFrequent(strengths, 3),
+    developmentAreas: mostFrequent(improvements, 3),
+    competencies: competencies.map(({ competency, score }) => ({
+      competency,
+      score,
+      assessment: score >= 70 ? 'Demonstrada de forma consistente' : 'Precisa de mais evidências e exemplos',
+    })),
+    practicePlan: weakest.length > 0
+      ? weakest.map(({ competency }) =>
+          `Prepare duas histórias no formato STAR que demonstrem "${competency}" e pratique-as em voz alta.`)
+      : ['Responda a mais perguntas para gerar um plano de prática personalizado.'],
+  };
+}
+
+export { HIRING_VERDICTS, VERDICT_LABELS, buildLocalReport };
+export type { CompetencyAssessment, HiringVerdict, InterviewReportPayload };
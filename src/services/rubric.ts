@@ -0,0 +1,93 @@
+import { createLogger } from './logger';
+
+// Rubrica de avaliação: critérios, pesos configuráveis e cálculo da pontuação final
+
+const log = createLogger('rubric');
+
+type CriterionKey = 'clarity' | 'technicalKnowledge' | 'examples' | 'relevance' | 'communication' | 'depth';
+
+interface CriterionScore {
+  criterion: CriterionKey;
+  score: number;
+  justification: string;
+}
+
+type CriterionWeights = Record<CriterionKey, number>;
+
+const RUBRIC_CRITERIA: { key: CriterionKey; label: string; description: string }[] = [
+  { key: 'clarity', label: 'Clareza', description: 'Clareza e estrutura da resposta' },
+  { key: 'technicalKnowledge', label: 'Conhecimento técnico', description: 'Conhecimento técnico demonstrado' },
+  { key: 'examples', label: 'Exemplos', description: 'Exemplos práticos fornecidos' },
+  { key: 'relevance', label: 'Relevância', description: 'Relevância para a posição' },
+  { key: 'communication', label: 'Comunicação', description: 'Comunicação efetiva' },
+  { key: 'depth', label: 'Profundidade', description: 'Profundidade da resposta' },
+];
+
+const CRITERION_KEYS = RUBRIC_CRITERIA.map(criterion => criterion.key) as [CriterionKey, ...CriterionKey[]];
+
+const DEFAULT_CRITERION_WEIGHTS: CriterionWeights = {
+  clarity: 1,
+  technicalKnowledge: 1.5,
+  examples: 1.25,
+  relevance: 1,
+  communication: 1,
+  depth: 1.25,
+};
+
+const WEIGHTS_STORAGE_KEY = 'talk-skill-ai:criterion-weights';
+
+function getCriterionLabel(key: CriterionKey): string {
+  return RUBRIC_CRITERIA.find(criterion => criterion.key === key)?.label ?? key;
+}
+
+// Pesos padrão, com override opcional guardado no navegador
+function getCriterionWeights(): CriterionWeights {
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(WEIGHTS_STORAGE_KEY) : null;
+    if (!stored) return DEFAULT_CRITERION_WEIGHTS;
+
+    const overrides: Partial<CriterionWeights> = JSON.parse(stored);
+    const weights = { ...DEFAULT_CRITERION_WEIGHTS };
+    for (const key of CRITERION_KEYS) {
+      const value = overrides[key];
+      if (typeof value === 'number' && value >= 0) weights[key] = value;
+    }
+    return weights;
+  } catch (error) {
+    log.warn('Pesos da rubrica inválidos no armazenamento local. Usando valores padrão.', error);
+    return DEFAULT_CRITERION_WEIGHTS;
+  }
+}
+
+function saveCriterionWeights(weights: Partial<CriterionWeights> | null): void {
+  if (weights) {
+    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+  } else {
+    localStorage.removeItem(WEIGHTS_STORAGE_KEY);
+  }
+}
+
+// Média ponderada dos critérios avaliados (critérios em falta não contam para o denominador)
+function computeWeightedScore(criteria: CriterionScore[], weights: CriterionWeights = getCriterionWeights()): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  for (const { criterion, score } of criteria) {
+    const weight = weights[criterion] ?? 0;
+    weightedSum += score * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? Math.round(weightedSum / totalWeight) : 0;
+}
+
+export {
+  RUBRIC_CRITERIA,
+  CRITERION_KEYS,
+  DEFAULT_CRITERION_WEIGHTS,
+  getCriterionLabel,
+  getCriterionWeights,
+  saveCriterionWeights,
+  computeWeightedScore,
+};
+export type { CriterionKey, CriterionScore, CriterionWeights };
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import { normalizeCategory, normalizeDifficulty, QUESTION_CATEGORIES, QUESTION_DIFFICULTIES, type InterviewQuestion } from './questions';
+import { HIRING_VERDICTS, type InterviewReportPayload } from './report';
+import { CRITERION_KEYS, type CriterionScore } from './rubric';
+
+// Schemas das respostas estruturadas esperadas do modelo.
+// Os tipos de saída são declarados explicitamente porque o projeto compila sem strictNullChecks,
+// o que faz o zod inferir todas as propriedades como opcionais.
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// A pontuação final não vem do modelo: é calculada a partir dos critérios com os pesos configurados
+interface FeedbackPayload {
+  criteria: CriterionScore[];
+  strengths: string[];
+  improvements: string[];
+  overall: string;
+  demonstratedSkills?: string[];
+}
+
+const criterionScoreSchema = z.object({
+  criterion: z.enum(CRITERION_KEYS),
+  score: z.coerce.number().min(0).max(100).transform(Math.round),
+  justification: z.string().trim().min(1),
+});
+
+const interviewFeedbackSchema = z.object({
+  criteria: z.array(criterionScoreSchema).superRefine((criteria, ctx) => {
+    const missing = CRITERION_KEYS.filter(key => !criteria.some(item => item.criterion === key));
+    if (missing.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Critérios em falta: ${missing.join(', ')}` });
+    }
+  }),
+  strengths: z.array(z.string().trim().min(1)).min(1),
+  improvements: z.array(z.string().trim().min(1)).min(1),
+  overall: z.string().trim().min(10),
+  demonstratedSkills: z.array(z.string().trim().min(1)).optional(),
+}) as Schema<FeedbackPayload>;
+
+const interviewQuestionSchema = z.object({
+  text: z.string().trim().min(5),
+  category: z.preprocess(normalizeCategory, z.enum(QUESTION_CATEGORIES)),
+  competency: z.string().trim().min(1),
+  difficulty: z.preprocess(normalizeDifficulty, z.enum(QUESTION_DIFFICULTIES)),
+  expectedKeyPoints: z.array(z.string().trim().min(1)).default([]),
+});
+
+const questionListSchema = z.array(interviewQuestionSchema).min(1) as Schema<InterviewQuestion[]>;
+
+const interviewReportSchema = z.object({
+  verdict: z.enum(HIRING_VERDICTS),
+  verdictRationale: z.string().trim().min(10),
+  strengths: z.array(z.string().trim().min(1)).min(1).max(3),
+  developmentAreas: z.array(z.string().trim().min(1)).min(1).max(3),
+  competencies: z.array(z.object({
+    competency: z.string().trim().min(1),
+    score: z.coerce.number().min(0).max(100).transform(Math.round),
+    assessment: z.string().trim().min(1),
+  })).min(1),
+  practicePlan: z.array(z.string().trim().min(5)).min(1),
+}) as Schema<InterviewReportPayload>;
+
+// Trecho da resposta modelo que cobre um ponto-chave (o excerpt deve ser cópia literal do texto)
+interface ModelAnswerKeyPoint {
+  point: string;
+  excerpt: string;
+}
+
+interface ModelAnswerPayload {
+  answer: string;
+  keyPoints: ModelAnswerKeyPoint[];
+}
+
+const modelAnswerSchema = z.object({
+  answer: z.string().trim().min(50),
+  keyPoints: z.array(z.object({
+    point: z.string().trim().min(1),
+    excerpt: z.string().trim().min(3),
+  })).min(1),
+}).superRefine((payload, ctx) => {
+  const answer = payload.answer.toLowerCase();
+  payload.keyPoints.forEach((keyPoint, index) => {
+    if (!answer.includes(keyPoint.excerpt.toLowerCase())) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['keyPoints', index, 'excerpt'],
+        message: 'O excerpt deve ser uma cópia literal de um trecho de "answer"',
+      });
+    }
+  });
+}) as Schema<ModelAnswerPayload>;
+
+interface ImprovedAnswerPayload {
+  improvedAnswer: string;
+  // Resumo curto de cada alteração feita (ex.: "Acrescentado o resultado do projeto")
+  changes: string[];
+}
+
+const improvedAnswerSchema = z.object({
+  improvedAnswer: z.string().trim().min(1),
+  changes: z.array(z.string().trim().min(1)).default([]),
+}) as Schema<ImprovedAnswerPayload>;
+
+const hintSchema = z.object({
+  hint: z.string().trim().min(1),
+}) as Schema<{ hint: string }>;
+
+const skillListSchema: Schema<string[]> = z.array(z.string().trim().min(2)).min(1).max(15);
+
+type JsonShape = 'object' | 'array';
+
+class StructuredOutputError extends Error {
+  constructor(message: string, public readonly rawResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+// Extrai o primeiro bloco JSON (objeto ou array) de uma resposta que pode conter texto extra ou markdown
+function extractJson(rawResponse: string, shape: JsonShape): unknown {
+  const cleanResponse = rawResponse.trim().replace(/```json\s*/g, '').replace(/```\s*/g, '');
+  const [open, close] = shape === 'object' ? ['{', '}'] : ['[', ']'];
+
+  const jsonStart = cleanResponse.indexOf(open);
+  const jsonEnd = cleanResponse.lastIndexOf(close) + 1;
+
+  if (jsonStart < 0 || jsonEnd <= jsonStart) {
+    throw new StructuredOutputError(`Nenhum ${shape === 'object' ? 'objeto' : 'array'} JSON encontrado na resposta`, rawResponse);
+  }
+
+  try {
+    return JSON.parse(cleanResponse.substring(jsonStart, jsonEnd));
+  } catch (error) {
+    throw new StructuredOutputError(`JSON inválido: ${(error as Error).message}`, rawResponse);
+  }
+}
+
+// Converte os erros do zod numa lista legível para devolver ao modelo no pedido de reparação
+function formatValidationError(error: z.ZodError): string {
+  return error.issues
+    .map(issue => `- ${issue.path.length > 0 ? issue.path.join('.') : '(raiz)'}: ${issue.message}`)
+    .join('\n');
+}
+
+function parseStructured<T>(rawResponse: string, schema: Schema<T>, shape: JsonShape): T {
+  const json = extractJson(rawResponse, shape);
+  const result = schema.safeParse(json);
+
+  if (!result.success) {
+    throw new StructuredOutputError(formatValidationError(result.error), rawResponse);
+  }
+
+  return result.data;
+}
+
+export { formatValidationError, hintSchema, improvedAnswerSchema, interviewFeedbackSchema, interviewReportSchema, modelAnswerSchema, questionListSchema, skillListSchema, parseStructured, StructuredOutputError };
+export type { FeedbackPayload, ImprovedAnswerPayload, ModelAnswerKeyPoint, ModelAnswerPayload, JsonShape, Schema };
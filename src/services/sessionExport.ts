@@ -0,0 +1,396 @@
+import { z } from 'zod';
+import { formatValidationError, type Schema } from './schemas';
+import { QUESTION_CATEGORIES, QUESTION_DIFFICULTIES, CATEGORY_LABELS, DIFFICULTY_LABELS } from './questions';
+import { CRITERION_KEYS, getCriterionLabel } from './rubric';
+import { HINT_LABELS } from './hints';
+import { HIRING_VERDICTS, VERDICT_LABELS, type InterviewReportPayload } from './report';
+import { getAverageScore, getCategoryAverages, getCriterionAverages, MODE_LABELS } from './sessionStats';
+import type { StoredSession } from './sessionStore';
+import { normalizeText } from './text';
+
+// Exportação de uma entrevista concluída (JSON reimportável, Markdown e relatório para imprimir em PDF)
+
+const SESSION_EXPORT_FORMAT = 'talk-skill-ai/session';
+// Incrementar sempre que a estrutura de StoredSession mudar de forma incompatível
+const SESSION_EXPORT_VERSION = 1;
+
+type ExportFormat = 'pdf' | 'markdown' | 'json';
+
+interface SessionExportSummary {
+  averageScore: number;
+  answeredQuestions: number;
+  categoryAverages: ReturnType<typeof getCategoryAverages>;
+  criterionAverages: ReturnType<typeof getCriterionAverages>;
+}
+
+interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  // Informativo: é recalculado a partir da sessão na importação
+  summary: SessionExportSummary;
+  session: StoredSession;
+}
+
+class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionImportError';
+  }
+}
+
+const feedbackSchema = z.object({
+  score: z.number().min(0).max(100),
+  criteria: z.array(z.object({
+    criterion: z.enum(CRITERION_KEYS),
+    score: z.number().min(0).max(100),
+    justification: z.string(),
+  })),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  overall: z.string(),
+  demonstratedSkills: z.array(z.string()).optional(),
+  integrity: z.object({
+    flagged: z.boolean(),
+    warnings: z.array(z.string()),
+    heuristicScore: z.number(),
+  }).optional(),
+  source: z.enum(['ai', 'repaired', 'fallback']),
+});
+
+const reportSchema = z.object({
+  verdict: z.enum(HIRING_VERDICTS),
+  verdictRationale: z.string(),
+  strengths: z.array(z.string()),
+  developmentAreas: z.array(z.string()),
+  competencies: z.array(z.object({
+    competency: z.string(),
+    score: z.number().min(0).max(100),
+    assessment: z.string(),
+  })),
+  practicePlan: z.array(z.string()),
+  source: z.enum(['ai', 'repaired', 'fallback']),
+});
+
+const storedSessionSchema = z.object({
+  id: z.string().min(1),
+  status: z.literal('completed'),
+  config: z.object({
+    mode: z.enum(['quick', 'complete']),
+    adaptive: z.boolean().optional(),
+    questionCount: z.number().int().positive().optional(),
+    area: z.string(),
+    experience: z.string(),
+    jobDescription: z.string().optional(),
+    candidateName: z.string(),
+  }),
+  questions: z.array(z.object({
+    id: z.number(),
+    text: z.string(),
+    category: z.enum(QUESTION_CATEGORIES),
+    competency: z.string(),
+    difficulty: z.enum(QUESTION_DIFFICULTIES),
+    expectedKeyPoints: z.array(z.string()),
+  })),
+  answers: z.array(z.object({
+    questionId: z.number(),
+    text: z.string(),
+    feedback: feedbackSchema.optional(),
+    hintsUsed: z.array(z.enum(['structure', 'content', 'example'])).optional(),
+    answeredAt: z.number().optional(),
+  })),
+  requiredSkills: z.array(z.string()),
+  currentQuestionIndex: z.number(),
+  startedAt: z.number(),
+  updatedAt: z.number(),
+  completedAt: z.number().optional(),
+  report: reportSchema.optional(),
+}) as Schema<StoredSession>;
+
+const sessionExportSchema = z.object({
+  format: z.literal(SESSION_EXPORT_FORMAT),
+  version: z.number().int().min(1),
+  session: z.unknown(),
+});
+
+function buildSessionExport(session: StoredSession): SessionExport {
+  return {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    summary: {
+      averageScore: getAverageScore(session.answers),
+      answeredQuestions: session.answers.length,
+      categoryAverages: getCategoryAverages([session]),
+      criterionAverages: getCriterionAverages([session]),
+    },
+    session,
+  };
+}
+
+function toSessionJson(session: StoredSession): string {
+  return JSON.stringify(buildSessionExport(session), null, 2);
+}
+
+// Lê um ficheiro exportado; versões futuras precisam de uma atualização da aplicação
+function parseSessionExport(text: string): StoredSession {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SessionImportError('O ficheiro não contém JSON válido.');
+  }
+
+  const envelope = sessionExportSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new SessionImportError('O ficheiro não é uma entrevista exportada por esta aplicação.');
+  }
+  if (envelope.data.version > SESSION_EXPORT_VERSION) {
+    throw new SessionImportError(`O ficheiro usa a versão ${envelope.data.version} do formato; esta aplicação só lê até à versão ${SESSION_EXPORT_VERSION}.`);
+  }
+
+  const session = storedSessionSchema.safeParse(envelope.data.session);
+  if (!session.success) {
+    throw new SessionImportError(`A entrevista no ficheiro está incompleta:\n${formatValidationError(session.error)}`);
+  }
+  return session.data;
+}
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+const sessionDate = (session: StoredSession) => session.completedAt ?? session.updatedAt;
+
+const SOURCE_NOTES: Record<string, string> = {
+  repaired: 'Resposta da IA corrigida',
+  fallback: 'Avaliação offline (sem IA)',
+};
+
+// Perguntas respondidas, pela ordem da entrevista
+const answeredQuestions = (session: StoredSession) => session.questions
+  .map(question => ({ question, answer: session.answers.find(answer => answer.questionId === question.id) }))
+  .filter(item => item.answer);
+
+function reportMarkdown(report: InterviewReportPayload): string[] {
+  return [
+    '## Relatório',
+    '',
+    `**${VERDICT_LABELS[report.verdict]}.** ${report.verdictRationale}`,
+    '',
+    '**Principais pontos fortes**',
+    '',
+    ...report.strengths.map(strength => `- ${strength}`),
+    '',
+    '**Áreas de desenvolvimento**',
+    '',
+    ...report.developmentAreas.map(area => `- ${area}`),
+    '',
+    '**Competências**',
+    '',
+    ...report.competencies.map(({ competency, score, assessment }) => `- ${competency}: ${score}/100. ${assessment}`),
+    '',
+    '**Plano de prática**',
+    '',
+    ...report.practicePlan.map((step, index) => `${index + 1}. ${step}`),
+  ];
+}
+
+function toSessionMarkdown(session: StoredSession): string {
+  const { config } = session;
+  const lines: string[] = [
+    `# Entrevista: ${config.area} (${config.experience})`,
+    '',
+    `- **Candidato:** ${config.candidateName}`,
+    `- **Data:** ${formatDateTime(sessionDate(session))}`,
+    `- **Modo:** ${MODE_LABELS[config.mode]}${config.adaptive ? ' · dificuldade adaptativa' : ''}`,
+    `- **Pontuação média:** ${getAverageScore(session.answers)}/100`,
+    `- **Perguntas respondidas:** ${session.answers.length}`,
+  ];
+
+  if (session.report) {
+    lines.push('', ...reportMarkdown(session.report));
+  }
+
+  const categoryAverages = getCategoryAverages([session]);
+  if (categoryAverages.length > 0) {
+    lines.push('', '## Por tipo de pergunta', '', '| Tipo | Respostas | Média |', '| --- | ---: | ---: |');
+    categoryAverages.forEach(({ category, count, average }) => lines.push(`| ${CATEGORY_LABELS[category]} | ${count} | ${average} |`));
+  }
+
+  const criterionAverages = getCriterionAverages([session]);
+  if (criterionAverages.length > 0) {
+    lines.push('', '## Por critério', '', '| Critério | Média |', '| --- | ---: |');
+    criterionAverages.forEach(({ criterion, average }) => lines.push(`| ${getCriterionLabel(criterion)} | ${average} |`));
+  }
+
+  lines.push('', '## Perguntas');
+  answeredQuestions(session).forEach(({ question, answer }, index) => {
+    lines.push(
+      '',
+      `### ${index + 1}. ${question.text}`,
+      '',
+      `*${CATEGORY_LABELS[question.category]} · ${question.competency} · ${DIFFICULTY_LABELS[question.difficulty]}*`,
+      '',
+      '**Resposta**',
+      '',
+      ...answer.text.split('\n').map(line => `> ${line}`),
+    );
+    if (answer.hintsUsed?.length) {
+      lines.push('', `Dicas usadas: ${answer.hintsUsed.map(level => HINT_LABELS[level]).join(', ')}`);
+    }
+
+    const { feedback } = answer;
+    if (!feedback) return;
+
+    lines.push('', `**Pontuação:** ${feedback.score}/100${SOURCE_NOTES[feedback.source] ? ` (${SOURCE_NOTES[feedback.source]})` : ''}`);
+    if (feedback.integrity?.flagged) {
+      lines.push('', '**Pontuação a verificar:**', ...feedback.integrity.warnings.map(warning => `- ${warning}`));
+    }
+    if (feedback.criteria.length > 0) {
+      lines.push('', '**Critérios**', '', ...feedback.criteria.map(item => `- ${getCriterionLabel(item.criterion)}: ${item.score}/100. ${item.justification}`));
+    }
+    lines.push(
+      '',
+      '**Pontos fortes**',
+      '',
+      ...feedback.strengths.map(strength => `- ${strength}`),
+      '',
+      '**Sugestões de melhoria**',
+      '',
+      ...feedback.improvements.map(improvement => `- ${improvement}`),
+      '',
+      feedback.overall,
+    );
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const htmlList = (items: string[]) => `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+
+// Documento HTML autónomo, pensado para "Guardar como PDF" na janela de impressão do navegador
+function toSessionHtml(session: StoredSession): string {
+  const { config } = session;
+  const categoryRows = getCategoryAverages([session])
+    .map(({ category, count, average }) => `<tr><td>${CATEGORY_LABELS[category]}</td><td>${count}</td><td>${average}</td></tr>`)
+    .join('');
+  const criterionRows = getCriterionAverages([session])
+    .map(({ criterion, average }) => `<tr><td>${escapeHtml(getCriterionLabel(criterion))}</td><td>${average}</td></tr>`)
+    .join('');
+
+  const { report } = session;
+  const reportSection = report ? `<h2>Relatório</h2>
+<p><strong>${VERDICT_LABELS[report.verdict]}.</strong> ${escapeHtml(report.verdictRationale)}</p>
+<h4>Principais pontos fortes</h4>${htmlList(report.strengths)}
+<h4>Áreas de desenvolvimento</h4>${htmlList(report.developmentAreas)}
+<h4>Competências</h4>
+<table><tr><th>Competência</th><th>Nota</th><th>Avaliação</th></tr>${report.competencies
+    .map(({ competency, score, assessment }) => `<tr><td>${escapeHtml(competency)}</td><td>${score}</td><td>${escapeHtml(assessment)}</td></tr>`)
+    .join('')}</table>
+<h4>Plano de prática</h4><ol>${report.practicePlan.map(step => `<li>${escapeHtml(step)}</li>`).join('')}</ol>` : '';
+
+  const questionSections = answeredQuestions(session).map(({ question, answer }, index) => {
+    const { feedback } = answer;
+    return `<section class="question">
+  <h3>${index + 1}. ${escapeHtml(question.text)}</h3>
+  <p class="meta">${CATEGORY_LABELS[question.category]} · ${escapeHtml(question.competency)} · ${DIFFICULTY_LABELS[question.difficulty]}</p>
+  <blockquote>${escapeHtml(answer.text).replace(/\n/g, '<br>')}</blockquote>
+  ${answer.hintsUsed?.length ? `<p class="meta">Dicas usadas: ${answer.hintsUsed.map(level => HINT_LABELS[level]).join(', ')}</p>` : ''}
+  ${feedback ? `<p><strong>Pontuação: ${feedback.score}/100</strong>${SOURCE_NOTES[feedback.source] ? ` <span class="meta">(${SOURCE_NOTES[feedback.source]})</span>` : ''}</p>
+  ${feedback.integrity?.flagged ? `<div class="warning"><strong>Pontuação a verificar</strong>${htmlList(feedback.integrity.warnings)}</div>` : ''}
+  ${feedback.criteria.length > 0 ? `<table><tr><th>Critério</th><th>Nota</th><th>Justificação</th></tr>${feedback.criteria
+    .map(item => `<tr><td>${escapeHtml(getCriterionLabel(item.criterion))}</td><td>${item.score}</td><td>${escapeHtml(item.justification)}</td></tr>`)
+    .join('')}</table>` : ''}
+  <h4>Pontos fortes</h4>${htmlList(feedback.strengths)}
+  <h4>Sugestões de melhoria</h4>${htmlList(feedback.improvements)}
+  <p>${escapeHtml(feedback.overall)}</p>` : ''}
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`Entrevista - ${config.area} - ${config.candidateName}`)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.2rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; margin-top: 2rem; }
+  h3 { font-size: 1rem; margin-bottom: 0.25rem; }
+  h4 { font-size: 0.9rem; margin: 0.75rem 0 0.25rem; }
+  .meta { color: #555; font-size: 0.85rem; margin: 0.25rem 0; }
+  blockquote { margin: 0.5rem 0; padding: 0.5rem 0.75rem; background: #f4f4f5; border-left: 3px solid #999; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; margin: 0.5rem 0; }
+  th, td { border: 1px solid #ddd; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  .warning { border: 1px solid #dc2626; color: #991b1b; padding: 0.5rem; margin: 0.5rem 0; }
+  .question { break-inside: avoid-page; margin-top: 1.5rem; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Entrevista: ${escapeHtml(config.area)} (${escapeHtml(config.experience)})</h1>
+<p class="meta">${escapeHtml(config.candidateName)} · ${formatDateTime(sessionDate(session))} · ${MODE_LABELS[config.mode]}</p>
+<p><strong>Pontuação média: ${getAverageScore(session.answers)}/100</strong> · ${session.answers.length} pergunta(s) respondida(s)</p>
+${reportSection}
+${categoryRows ? `<h2>Por tipo de pergunta</h2><table><tr><th>Tipo</th><th>Respostas</th><th>Média</th></tr>${categoryRows}</table>` : ''}
+${criterionRows ? `<h2>Por critério</h2><table><tr><th>Critério</th><th>Média</th></tr>${criterionRows}</table>` : ''}
+<h2>Perguntas</h2>
+${questionSections}
+</body>
+</html>`;
+}
+
+const slugify = (value: string) => normalizeText(value)
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-|-$/g, '');
+
+function getExportFileName(session: StoredSession, extension: string): string {
+  const date = new Date(sessionDate(session)).toISOString().slice(0, 10);
+  return `entrevista-${slugify(session.config.area) || 'sessao'}-${date}.${extension}`;
+}
+
+function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Dá tempo ao navegador para iniciar o download antes de libertar o blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Abre o relatório numa janela nova e mostra a janela de impressão (onde se escolhe "Guardar como PDF")
+function printSessionReport(session: StoredSession): boolean {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(toSessionHtml(session));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+}
+
+// Devolve false quando o navegador bloqueia a janela de impressão
+function exportSession(session: StoredSession, format: ExportFormat): boolean {
+  switch (format) {
+    case 'pdf':
+      return printSessionReport(session);
+    case 'markdown':
+      downloadFile(getExportFileName(session, 'md'), toSessionMarkdown(session), 'text/markdown;charset=utf-8');
+      return true;
+    case 'json':
+      downloadFile(getExportFileName(session, 'json'), toSessionJson(session), 'application/json');
+      return true;
+  }
+}
+
+export { SessionImportError, exportSession, parseSessionExport };
+export type { ExportFormat, SessionExport, SessionExportSummary };
@@ -0,0 +1,214 @@
+import type { Answer, InterviewResult, Question } from './types';
+import type { StoredSession } from './sessionStore';
+import { QUESTION_CATEGORIES, type QuestionCategory } from './questions';
+import { CRITERION_KEYS, type CriterionKey } from './rubric';
+
+// Estatísticas de uma entrevista, partilhadas pelos resultados, histórico e painel de progresso
+
+const MODE_LABELS: Record<InterviewResult['config']['mode'], string> = {
+  quick: 'Prática Rápida',
+  complete: 'Simulação Completa',
+};
+
+interface ScoredAnswer {
+  question: Question;
+  answer: Answer;
+  score: number;
+}
+
+interface CategoryAverage {
+  category: QuestionCategory;
+  count: number;
+  average: number;
+}
+
+interface CriterionAverage {
+  criterion: CriterionKey;
+  count: number;
+  average: number;
+}
+
+interface CompetencyAverage {
+  competency: string;
+  count: number;
+  average: number;
+}
+
+interface ScoreTrendPoint {
+  sessionId: string;
+  date: number;
+  averageScore: number;
+}
+
+interface PracticeWeek {
+  // Segunda-feira (00:00) que abre a semana
+  weekStart: number;
+  sessions: number;
+  answers: number;
+}
+
+interface ScoreBucket {
+  label: string;
+  min: number;
+  max: number;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Abaixo desta pontuação a pergunta é sugerida para repetir
+const WEAK_SCORE_THRESHOLD = 60;
+
+const SCORE_BUCKETS: Omit<ScoreBucket, 'count'>[] = [
+  { label: '0-19', min: 0, max: 19 },
+  { label: '20-39', min: 20, max: 39 },
+  { label: '40-59', min: 40, max: 59 },
+  { label: '60-79', min: 60, max: 79 },
+  { label: '80-100', min: 80, max: 100 },
+];
+
+const mean = (values: number[]) =>
+  Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+// Média das pontuações das respostas avaliadas (0 sem respostas)
+function getAverageScore(answers: InterviewResult['answers']): number {
+  const scores = answers.filter(answer => answer.feedback).map(answer => answer.feedback!.score);
+  return scores.length > 0 ? mean(scores) : 0;
+}
+
+// Número de perguntas previsto para a entrevista (fixo ao repetir perguntas, senão pelo modo)
+function getQuestionTarget(config: InterviewResult['config']): number {
+  return config.questionCount ?? (config.mode === 'quick' ? 5 : 10);
+}
+
+// Respostas com feedback, acompanhadas da pergunta a que respondem
+function getScoredAnswers(results: InterviewResult[]): ScoredAnswer[] {
+  return results.flatMap(({ questions, answers }) =>
+    answers
+      .map(answer => ({ question: questions.find(q => q.id === answer.questionId), answer }))
+      .filter(item => item.question && item.answer.feedback)
+      .map(({ question, answer }) => ({ question, answer, score: answer.feedback!.score }))
+  );
+}
+
+// Perguntas com pontuação abaixo de WEAK_SCORE_THRESHOLD, pela ordem da entrevista
+function getWeakQuestions(result: InterviewResult): Question[] {
+  return getScoredAnswers([result])
+    .filter(item => item.score < WEAK_SCORE_THRESHOLD)
+    .map(item => item.question);
+}
+
+// Quantas respostas caem em cada intervalo de 20 pontos
+function getScoreDistribution(answers: InterviewResult['answers']): ScoreBucket[] {
+  const scores = answers.filter(answer => answer.feedback).map(answer => answer.feedback!.score);
+  return SCORE_BUCKETS.map(bucket => ({
+    ...bucket,
+    count: scores.filter(score => score >= bucket.min && score <= bucket.max).length,
+  }));
+}
+
+// Agrupa pontuações por chave, devolvendo as chaves pela ordem em que apareceram
+function groupScores<K>(items: { key: K; score: number }[]): Map<K, number[]> {
+  const groups = new Map<K, number[]>();
+  for (const { key, score } of items) {
+    groups.set(key, [...(groups.get(key) ?? []), score]);
+  }
+  return groups;
+}
+
+// Média por categoria de pergunta, pela ordem das categorias
+function getCategoryAverages(results: InterviewResult[]): CategoryAverage[] {
+  const groups = groupScores(getScoredAnswers(results).map(({ question, score }) => ({ key: question.category, score })));
+  return QUESTION_CATEGORIES
+    .filter(category => groups.has(category))
+    .map(category => ({ category, count: groups.get(category)!.length, average: mean(groups.get(category)!) }));
+}
+
+// Média de cada critério da rubrica (respostas sem critérios, como as em branco, não contam)
+function getCriterionAverages(results: InterviewResult[]): CriterionAverage[] {
+  const groups = groupScores(getScoredAnswers(results).flatMap(({ answer }) =>
+    answer.feedback!.criteria.map(criterion => ({ key: criterion.criterion, score: criterion.score }))
+  ));
+  return CRITERION_KEYS
+    .filter(criterion => groups.has(criterion))
+    .map(criterion => ({ criterion, count: groups.get(criterion)!.length, average: mean(groups.get(criterion)!) }));
+}
+
+// Média por competência, das mais fracas para as mais fortes. A competência vem da IA com
+// grafias variáveis, por isso agrupamos sem maiúsculas nem espaços extra e mostramos a primeira grafia
+function getCompetencyAverages(results: InterviewResult[]): CompetencyAverage[] {
+  const labels = new Map<string, string>();
+  const groups = groupScores(getScoredAnswers(results).map(({ question, score }) => {
+    const key = question.competency.trim().replace(/\s+/g, ' ').toLowerCase();
+    if (!labels.has(key)) labels.set(key, question.competency.trim());
+    return { key, score };
+  }));
+
+  return [...groups.entries()]
+    .map(([key, scores]) => ({ competency: labels.get(key)!, count: scores.length, average: mean(scores) }))
+    .sort((a, b) => a.average - b.average || b.count - a.count);
+}
+
+const sessionDate = (session: StoredSession) => session.completedAt ?? session.updatedAt;
+
+// Pontuação média de cada sessão, da mais antiga para a mais recente
+function getScoreTrend(sessions: StoredSession[]): ScoreTrendPoint[] {
+  return sessions
+    .filter(session => session.answers.some(answer => answer.feedback))
+    .map(session => ({ sessionId: session.id, date: sessionDate(session), averageScore: getAverageScore(session.answers) }))
+    .sort((a, b) => a.date - b.date);
+}
+
+// Diferença entre a média das últimas sessões e a das anteriores (null sem sessões suficientes)
+function getRecentProgress(trend: ScoreTrendPoint[], window = 3): number | null {
+  if (trend.length < 2) return null;
+
+  const size = Math.min(window, Math.floor(trend.length / 2));
+  const recent = trend.slice(-size).map(point => point.averageScore);
+  const previous = trend.slice(-size * 2, -size).map(point => point.averageScore);
+  return mean(recent) - mean(previous);
+}
+
+function startOfWeek(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+// Sessões e respostas por semana nas últimas `weeks` semanas (incluindo a atual)
+function getPracticeFrequency(sessions: StoredSession[], weeks = 8, now = Date.now()): PracticeWeek[] {
+  const currentWeek = startOfWeek(now);
+  const result: PracticeWeek[] = Array.from({ length: weeks }, (_, index) => ({
+    // +DAY_MS/2 compensa mudanças de hora de verão antes de voltar ao início da semana
+    weekStart: startOfWeek(currentWeek - (weeks - 1 - index) * 7 * DAY_MS + DAY_MS / 2),
+    sessions: 0,
+    answers: 0,
+  }));
+
+  for (const session of sessions) {
+    const week = result.find(item => item.weekStart === startOfWeek(sessionDate(session)));
+    if (week) {
+      week.sessions += 1;
+      week.answers += session.answers.length;
+    }
+  }
+  return result;
+}
+
+export {
+  getAverageScore,
+  getCategoryAverages,
+  getCompetencyAverages,
+  getCriterionAverages,
+  getPracticeFrequency,
+  getQuestionTarget,
+  getRecentProgress,
+  getScoreDistribution,
+  getScoreTrend,
+  getScoredAnswers,
+  getWeakQuestions,
+  MODE_LABELS,
+  WEAK_SCORE_THRESHOLD,
+};
+export type { CategoryAverage, CompetencyAverage, CriterionAverage, PracticeWeek, ScoreBucket, ScoreTrendPoint, ScoredAnswer };
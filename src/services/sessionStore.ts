@@ -0,0 +1,109 @@
+import type { InterviewHint, InterviewReport } from './groqService';
+import type { InterviewResult } from './types';
+import { createLogger } from './logger';
+
+// Sessões de entrevista guardadas no IndexedDB do navegador, atualizadas a cada resposta
+
+const log = createLogger('sessions');
+
+const DB_NAME = 'talk-skill-ai';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+type SessionStatus = 'in_progress' | 'completed';
+
+interface StoredSession extends InterviewResult {
+  id: string;
+  status: SessionStatus;
+  // Pergunta em que o candidato estava quando a sessão foi guardada
+  currentQuestionIndex: number;
+  // Dicas já pedidas na pergunta atual, para não se perderem (nem à penalização) ao retomar
+  currentHints?: InterviewHint[];
+  startedAt: number;
+  updatedAt: number;
+  completedAt?: number;
+  // Relatório final da IA, guardado para não voltar a enviar a transcrição a cada visita aos resultados
+  report?: InterviewReport;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB não está disponível neste navegador'));
+  }
+
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      store.createIndex('status', 'status');
+      store.createIndex('updatedAt', 'updatedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Permite tentar de novo na próxima operação
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+// Executa um pedido numa transação e resolve quando esta termina (e não só o pedido)
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, mode);
+    const request = run(transaction.objectStore(SESSIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+async function saveSession(session: StoredSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+async function getSession(id: string): Promise<StoredSession | undefined> {
+  return withStore<StoredSession | undefined>('readonly', store => store.get(id));
+}
+
+// Todas as sessões, da mais recente para a mais antiga
+async function listSessions(status?: SessionStatus): Promise<StoredSession[]> {
+  const sessions = await withStore<StoredSession[]>('readonly', store =>
+    status ? store.index('status').getAll(status) : store.getAll()
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Sessões por terminar, para retomar; falhas do IndexedDB não devem impedir de começar uma nova
+async function getUnfinishedSessions(): Promise<StoredSession[]> {
+  try {
+    return await listSessions('in_progress');
+  } catch (error) {
+    log.warn('Não foi possível ler as sessões guardadas.', error);
+    return [];
+  }
+}
+
+async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export {
+  createSessionId,
+  deleteSession,
+  getSession,
+  getUnfinishedSessions,
+  listSessions,
+  saveSession,
+};
+export type { SessionStatus, StoredSession };
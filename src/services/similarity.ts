@@ -0,0 +1,82 @@
+import { normalizeText } from './text';
+
+// Semelhança textual entre perguntas (TF-IDF + cosseno), calculada localmente
+
+const STOPWORDS = new Set([
+  'a', 'ao', 'as', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'em', 'este', 'esta', 'eu', 'na', 'nas',
+  'no', 'nos', 'o', 'os', 'ou', 'para', 'por', 'que', 'se', 'sua', 'seu', 'suas', 'seus', 'um', 'uma', 'voce',
+  'qual', 'quais', 'quando', 'onde', 'porque', 'isso', 'me', 'mais', 'ja',
+]);
+
+// Palavras significativas, reduzidas a um radical aproximado para juntar flexões ("projeto"/"projetos")
+function tokenize(text: string): string[] {
+  const words: string[] = normalizeText(text).match(/[a-z0-9]+/g) ?? [];
+  return words
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    .map(word => word.slice(0, 6));
+}
+
+type TermVector = Map<string, number>;
+
+function buildVectors(documents: string[]): TermVector[] {
+  const tokenized = documents.map(tokenize);
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // IDF suavizado: termos presentes em todos os documentos continuam a contar um pouco
+  return tokenized.map(tokens => {
+    const vector: TermVector = new Map();
+    for (const term of tokens) {
+      vector.set(term, (vector.get(term) ?? 0) + 1);
+    }
+    for (const [term, frequency] of vector) {
+      const idf = Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+      vector.set(term, (frequency / tokens.length) * idf);
+    }
+    return vector;
+  });
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+// Para cada candidato, a maior semelhança com alguma das perguntas já vistas (0 a 1)
+function maxSimilarities(candidates: string[], seen: string[]): number[] {
+  if (seen.length === 0) return candidates.map(() => 0);
+
+  const vectors = buildVectors([...candidates, ...seen]);
+  const seenVectors = vectors.slice(candidates.length);
+
+  return candidates.map((_, index) =>
+    Math.max(...seenVectors.map(seenVector => cosine(vectors[index], seenVector)))
+  );
+}
+
+// A partir desta semelhança consideramos a pergunta repetida
+const SIMILARITY_THRESHOLD = 0.5;
+
+// Perguntas novas primeiro (pela ordem original); as repetidas vão para o fim, das menos às mais parecidas
+function rankByNovelty<T extends { text: string }>(candidates: T[], seen: string[]): T[] {
+  const similarities = maxSimilarities(candidates.map(candidate => candidate.text), seen);
+  const ranked = candidates.map((candidate, index) => ({ candidate, similarity: similarities[index], index }));
+
+  const novel = ranked.filter(item => item.similarity < SIMILARITY_THRESHOLD);
+  const repeated = ranked
+    .filter(item => item.similarity >= SIMILARITY_THRESHOLD)
+    .sort((a, b) => a.similarity - b.similarity || a.index - b.index);
+
+  return [...novel, ...repeated].map(item => item.candidate);
+}
+
+export { rankByNovelty };
@@ -0,0 +1,68 @@
+import { normalizeText } from './text';
+
+// Competências exigidas pela vaga: extração local (fallback) e cruzamento com as respostas
+
+const MAX_SKILLS = 10;
+
+const normalize = (value: string) => normalizeText(value).trim();
+
+// Extração heurística a partir dos tópicos (linhas com marcadores) da descrição da vaga
+function extractSkillsLocally(jobDescription: string): string[] {
+  const bulletLines = jobDescription
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => /^([-•*▪]|\d+[.)])\s+/.test(line))
+    .map(line => line.replace(/^([-•*▪]|\d+[.)])\s+/, '').replace(/[.;]$/, ''));
+
+  const candidates = bulletLines.length > 0
+    ? bulletLines
+    : jobDescription.split(/[,;\n]/).map(part => part.trim());
+
+  const skills: string[] = [];
+  for (const candidate of candidates) {
+    if (candidate.length < 2 || candidate.length > 80) continue;
+    if (skills.some(skill => normalize(skill) === normalize(candidate))) continue;
+    skills.push(candidate);
+    if (skills.length >= MAX_SKILLS) break;
+  }
+
+  return skills;
+}
+
+// Competências cujo nome (ou todas as palavras significativas) aparece no texto
+function matchSkillsInText(text: string, skills: string[]): string[] {
+  const normalizedText = normalize(text);
+
+  return skills.filter(skill => {
+    const normalizedSkill = normalize(skill);
+    if (normalizedText.includes(normalizedSkill)) return true;
+
+    const words = normalizedSkill.split(/\W+/).filter(word => word.length > 3);
+    return words.length > 0 && words.every(word => normalizedText.includes(word));
+  });
+}
+
+// Mantém apenas as competências que existem na lista exigida, com a grafia original
+function restrictToRequiredSkills(candidates: string[], requiredSkills: string[]): string[] {
+  return requiredSkills.filter(skill =>
+    candidates.some(candidate => normalize(candidate) === normalize(skill))
+  );
+}
+
+interface SkillCoverage {
+  covered: string[];
+  missing: string[];
+}
+
+function computeSkillCoverage(requiredSkills: string[], demonstratedSkills: string[][]): SkillCoverage {
+  const demonstrated = demonstratedSkills.flat();
+  const covered = restrictToRequiredSkills(demonstrated, requiredSkills);
+
+  return {
+    covered,
+    missing: requiredSkills.filter(skill => !covered.includes(skill)),
+  };
+}
+
+export { extractSkillsLocally, matchSkillsInText, restrictToRequiredSkills, computeSkillCoverage };
+export type { SkillCoverage };
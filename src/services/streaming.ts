@@ -0,0 +1,109 @@
+// Utilitários para ler respostas em streaming (SSE e NDJSON) como async iterators
+
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Server-Sent Events: devolve o conteúdo de cada linha "data:" até receber "[DONE]"
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') return;
+    if (data) yield data;
+  }
+}
+
+// JSON delimitado por linhas (formato de streaming do Ollama)
+async function* readNDJSON<T>(response: Response): AsyncGenerator<T> {
+  for await (const line of readLines(response)) {
+    const trimmed = line.trim();
+    if (trimmed) {
+      yield JSON.parse(trimmed) as T;
+    }
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Lê o valor (possivelmente incompleto) de uma propriedade string de um JSON
+ * que ainda está a chegar. Retorna null se a propriedade ainda não começou.
+ */
+function extractPartialJsonString(buffer: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(buffer);
+  if (!match) {
+    return null;
+  }
+
+  let result = '';
+  let i = match.index + match[0].length;
+
+  while (i < buffer.length) {
+    const char = buffer[i];
+
+    if (char === '"') break;
+
+    if (char === '\\') {
+      const next = buffer[i + 1];
+      if (next === undefined) break;
+
+      if (next === 'u') {
+        const hex = buffer.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        result += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+
+      result += JSON_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+export { readServerSentEvents, readNDJSON, extractPartialJsonString };
@@ -0,0 +1,7 @@
+// Utilitários de texto partilhados pelas heurísticas locais
+
+// Minúsculas e sem acentos, para comparar "Sénior" com "senior" ou "Gestão" com "gestao"
+const normalizeText = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export { normalizeText };
@@ -0,0 +1,78 @@
+// Diff palavra a palavra entre a resposta original e a versão melhorada
+
+type DiffOperation = 'equal' | 'added' | 'removed';
+
+interface DiffSegment {
+  operation: DiffOperation;
+  text: string;
+}
+
+// Acima disto a tabela LCS fica pesada e o texto inteiro aparece como substituído
+const MAX_DIFF_CELLS = 1_000_000;
+
+// Palavras com a pontuação colada e os espaços como tokens próprios, para reconstruir o texto tal e qual
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+const comparable = (token: string) => (/^\s+$/.test(token) ? ' ' : token);
+
+function pushSegment(segments: DiffSegment[], operation: DiffOperation, text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.operation === operation) {
+    last.text += text;
+  } else {
+    segments.push({ operation, text });
+  }
+}
+
+// Maior subsequência comum entre os tokens (programação dinâmica clássica)
+function diffTokens(original: string[], revised: string[]): DiffSegment[] {
+  const rows = original.length + 1;
+  const cols = revised.length + 1;
+  const table = new Uint32Array(rows * cols);
+
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = revised.length - 1; j >= 0; j--) {
+      table[i * cols + j] = comparable(original[i]) === comparable(revised[j])
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < original.length && j < revised.length) {
+    if (comparable(original[i]) === comparable(revised[j])) {
+      pushSegment(segments, 'equal', revised[j]);
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      pushSegment(segments, 'removed', original[i++]);
+    } else {
+      pushSegment(segments, 'added', revised[j++]);
+    }
+  }
+  while (i < original.length) pushSegment(segments, 'removed', original[i++]);
+  while (j < revised.length) pushSegment(segments, 'added', revised[j++]);
+
+  return segments;
+}
+
+function diffWords(original: string, revised: string): DiffSegment[] {
+  const originalTokens = tokenize(original);
+  const revisedTokens = tokenize(revised);
+
+  if (originalTokens.length * revisedTokens.length > MAX_DIFF_CELLS) {
+    return [
+      { operation: 'removed', text: original },
+      { operation: 'added', text: revised },
+    ];
+  }
+
+  return diffTokens(originalTokens, revisedTokens);
+}
+
+export { diffWords };
+export type { DiffOperation, DiffSegment };
@@ -0,0 +1,39 @@
+import type { InterviewFeedback } from './groqService';
+import type { HintLevel } from './hints';
+import type { InterviewQuestion } from './questions';
+
+// Modelo de uma entrevista (configuração, perguntas e respostas), partilhado pela UI e pelos serviços
+
+interface InterviewConfig {
+  mode: 'quick' | 'complete';
+  // Dificuldade de cada pergunta ajustada às pontuações anteriores
+  adaptive?: boolean;
+  // Número fixo de perguntas (ex.: ao repetir as perguntas fracas); sem ele, depende do modo
+  questionCount?: number;
+  area: string;
+  experience: string;
+  jobDescription?: string;
+  candidateName: string;
+}
+
+interface Question extends InterviewQuestion {
+  id: number;
+}
+
+interface Answer {
+  questionId: number;
+  text: string;
+  feedback?: InterviewFeedback;
+  // Dicas pedidas antes de responder (já descontadas em feedback.score)
+  hintsUsed?: HintLevel[];
+  answeredAt?: number;
+}
+
+interface InterviewResult {
+  config: InterviewConfig;
+  questions: Question[];
+  answers: Answer[];
+  requiredSkills: string[];
+}
+
+export type { Answer, InterviewConfig, InterviewResult, Question };
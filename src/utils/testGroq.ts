@@ -8,7 +8,13 @@ export const testGroqIntegration = async () => {
     
     // Teste simples de avaliação
     const feedback = await groqService.evaluateAnswer(
-      "Fale sobre sua experiência profissional",
+      {
+        text: "Fale sobre sua experiência profissional",
+        category: 'intro',
+        competency: "Experiência profissional",
+        difficulty: 'easy',
+        expectedKeyPoints: []
+      },
       "Tenho 5 anos de experiência em desenvolvimento web, trabalhando principalmente com React e Node.js",
       "Desenvolvedor Frontend"
     );